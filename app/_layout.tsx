@@ -3,11 +3,31 @@ import { useFonts } from 'expo-font';
 import { StatusBar } from 'expo-status-bar';
 import * as Linking from 'expo-linking';
 import { useEffect } from 'react';
+import { View } from 'react-native';
 import { useRouter, Slot } from 'expo-router';
 import 'react-native-reanimated';
 
+import { ConfigErrorScreen } from '@/components/ConfigErrorScreen';
+import { OfflineBanner } from '@/components/OfflineBanner';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { createLogger, loadStackConfig, StackAuthClient } from '@/lib/stack-auth';
+
+const log = createLogger('Linking');
+
+// Routes opened from links in Stack's emails: sign-in codes, password resets and email verification
+const EMAIL_LINK_ROUTES = ['magic-link', 'reset-password', 'verify-email'] as const;
+type EmailLinkRoute = (typeof EMAIL_LINK_ROUTES)[number];
+
+const isEmailLinkRoute = (path: string | null): path is EmailLinkRoute =>
+  EMAIL_LINK_ROUTES.some(route => route === path);
+
+// Validated once at startup; the app refuses to talk to Stack with a broken config
+const stackConfig = loadStackConfig();
+if (!stackConfig.success) {
+  createLogger('Config').error('Invalid Stack Auth configuration', { issues: stackConfig.error });
+}
+const stackAuthClient = stackConfig.success ? new StackAuthClient(stackConfig.data) : null;
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -19,15 +39,15 @@ export default function RootLayout() {
   useEffect(() => {
     // Handle incoming URLs (for OAuth callbacks)
     const handleUrl = (url: string) => {
-      console.log('Received URL:', url);
       const parsed = Linking.parse(url);
-      console.log('Parsed URL:', parsed);
-      console.log('Parsed path:', parsed.path);
-      console.log('Parsed queryParams:', parsed.queryParams);
+      log.debug('Received URL', { url, path: parsed.path });
       
-      // Check if this is an OAuth callback URL
-      if (url.includes('oauth-callback') || parsed.path === 'oauth-callback' || (parsed.queryParams && (parsed.queryParams.code || parsed.queryParams.error))) {
-        console.log('OAuth callback detected');
+      // Emailed links carry a `code` that is not an OAuth code
+      if (isEmailLinkRoute(parsed.path)) {
+        const code = parsed.queryParams?.code;
+        log.debug('Routing email link', { path: parsed.path });
+        router.push({ pathname: `/${parsed.path}`, params: code ? { code: String(code) } : {} });
+      } else if (url.includes('oauth-callback') || parsed.path === 'oauth-callback' || (parsed.queryParams && (parsed.queryParams.code || parsed.queryParams.error))) {
         // Extract query parameters and navigate to oauth-callback route
         const queryString = parsed.queryParams ? 
           Object.entries(parsed.queryParams)
@@ -35,24 +55,21 @@ export default function RootLayout() {
             .join('&') : '';
         
         const route = queryString ? `/oauth-callback?${queryString}` : '/oauth-callback';
-        console.log('Navigating to:', route);
+        log.debug('Routing OAuth callback', { route });
         router.push(route as any);
       } else {
-        console.log('Not an oauth-callback, ignoring. URL:', url);
+        log.debug('Ignoring URL', { url });
       }
     };
 
     // Listen for URL events
     const subscription = Linking.addEventListener('url', (event) => {
-      console.log('URL event received:', event.url);
       handleUrl(event.url);
     });
 
     // Handle initial URL if app was opened via deep link
     Linking.getInitialURL().then((url) => {
-      console.log('Initial URL check:', url);
       if (url) {
-        console.log('Processing initial URL:', url);
         handleUrl(url);
       }
     });
@@ -67,10 +84,17 @@ export default function RootLayout() {
     return null;
   }
 
+  if (!stackAuthClient) {
+    return <ConfigErrorScreen issues={stackConfig.success ? [] : stackConfig.error} showDetails={__DEV__} />;
+  }
+
   return (
-    <AuthProvider>
+    <AuthProvider client={stackAuthClient}>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Slot />
+        <View style={{ flex: 1 }}>
+          <Slot />
+          <OfflineBanner />
+        </View>
         <StatusBar style="auto" />
       </ThemeProvider>
     </AuthProvider>
@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { View, Text, ActivityIndicator, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../contexts/AuthContext';
+import { createLogger, describeError } from '../lib/stack-auth';
+
+const log = createLogger('MagicLink');
+
+// Opened by the link in a sign-in code email; the link carries the whole code
+export default function MagicLink() {
+  const router = useRouter();
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const { client } = useAuth();
+
+  useEffect(() => {
+    const handleLink = async () => {
+      if (!code) {
+        log.warn('Magic link without a code');
+        router.replace('/');
+        return;
+      }
+
+      const result = await client.signInWithCode(code);
+      if (!result.success) {
+        log.warn('Magic link sign in failed', { error: result.error });
+        // Expired and already used links are common; say so instead of silently landing on the login screen
+        Alert.alert('Sign in link', describeError(result.error));
+      }
+      // On success the client announces the new session to AuthProvider
+      router.replace('/');
+    };
+
+    handleLink();
+  }, [code, router, client]);
+
+  return (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: '#f8f9fa'
+    }}>
+      <ActivityIndicator size="large" color="#007AFF" />
+      <Text style={{
+        marginTop: 16,
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center'
+      }}>
+        Signing you in...
+      </Text>
+    </View>
+  );
+}
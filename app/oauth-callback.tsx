@@ -2,26 +2,23 @@ import { useEffect } from 'react';
 import { View, Text, ActivityIndicator } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '../contexts/AuthContext';
-import { stackAuthClient } from '../lib/stack-auth';
+import { createLogger } from '../lib/stack-auth';
+
+const log = createLogger('OAuthCallback');
 
 export default function OAuthCallback() {
-  console.log('OAuthCallback component rendered');
   const router = useRouter();
   const { code, state, error } = useLocalSearchParams<{
     code?: string;
     state?: string;
     error?: string;
   }>();
-  const { refreshUser } = useAuth();
-  
-  console.log('OAuthCallback params:', { code, state, error });
+  const { client } = useAuth();
 
   useEffect(() => {
     const handleCallback = async () => {
-      console.log('OAuth callback received:', { code, state, error });
-      
       if (error) {
-        console.error('OAuth error:', error);
+        log.warn('OAuth provider returned an error', { error });
         // Handle OAuth error - redirect to login with error message
         router.replace('/');
         return;
@@ -29,31 +26,28 @@ export default function OAuthCallback() {
 
       if (code && state) {
         try {
-          console.log('Processing OAuth callback with code and state');
-          const result = await stackAuthClient.handleOAuthCallback(code, state);
+          const result = await client.handleOAuthCallback(code, state);
           
           if (result.success) {
-            console.log('OAuth callback successful, refreshing user');
-            // Refresh user data and redirect to main app
-            await refreshUser();
+            // The client announces the new session to AuthProvider
             router.replace('/');
           } else {
-            console.error('OAuth callback failed:', result.error);
+            log.warn('OAuth callback failed', { error: result.error });
             // Handle callback error - redirect to login
             router.replace('/');
           }
         } catch (error) {
-          console.error('Error processing OAuth callback:', error);
+          log.error('Error processing OAuth callback', { error });
           router.replace('/');
         }
       } else {
-        console.error('Missing code or state parameter');
+        log.warn('Missing code or state parameter');
         router.replace('/');
       }
     };
 
     handleCallback();
-  }, [code, state, error, router, refreshUser]);
+  }, [code, state, error, router, client]);
 
   return (
     <View style={{
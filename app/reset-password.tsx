@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../contexts/AuthContext';
+import { createLogger, describeError, hasStackErrorCode, StackAuthError } from '../lib/stack-auth';
+import { isValidPassword, MIN_PASSWORD_LENGTH } from '../lib/validation';
+
+const log = createLogger('ResetPassword');
+
+// 'invalid' covers unknown, expired and already used links
+type ResetStatus = 'checking' | 'ready' | 'invalid' | 'done';
+
+const describeInvalidLink = (error: StackAuthError) => {
+  if (hasStackErrorCode(error, 'VERIFICATION_CODE_EXPIRED')) return 'This reset link has expired. Request a new one.';
+  if (hasStackErrorCode(error, 'VERIFICATION_CODE_ALREADY_USED')) return 'This reset link has already been used.';
+  if (hasStackErrorCode(error, 'VERIFICATION_CODE_NOT_FOUND')) return 'This reset link is not valid.';
+  return describeError(error);
+};
+
+// Opened by the link in a password reset email
+export default function ResetPassword() {
+  const router = useRouter();
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const { client } = useAuth();
+  const [status, setStatus] = useState<ResetStatus>('checking');
+  const [problem, setProblem] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Checked up front, so nobody types a new password for a dead link
+  useEffect(() => {
+    let cancelled = false;
+    const checkCode = async () => {
+      if (!code) {
+        log.warn('Reset link without a code');
+        setProblem('This reset link is not valid.');
+        setStatus('invalid');
+        return;
+      }
+      const result = await client.verifyPasswordResetCode(code);
+      if (cancelled) return;
+      if (result.success) {
+        setStatus('ready');
+      } else {
+        log.warn('Reset code rejected', { error: result.error });
+        setProblem(describeInvalidLink(result.error));
+        setStatus('invalid');
+      }
+    };
+
+    checkCode();
+    return () => {
+      cancelled = true;
+    };
+  }, [code, client]);
+
+  const handleSubmit = async () => {
+    if (isSubmitting || !code) return;
+
+    if (!isValidPassword(password)) {
+      Alert.alert('Error', `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await client.resetPassword(code, password);
+      if (result.success) {
+        setStatus('done');
+      } else if (result.error.kind === 'stack' && result.error.code.startsWith('VERIFICATION_CODE_')) {
+        setProblem(describeInvalidLink(result.error));
+        setStatus('invalid');
+      } else {
+        Alert.alert('Error', describeError(result.error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const backToSignIn = () => router.replace('/');
+
+  if (status === 'checking') {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#85432d" />
+        <Text style={styles.message}>Checking reset link...</Text>
+      </View>
+    );
+  }
+
+  if (status === 'invalid' || status === 'done') {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.title}>{status === 'done' ? 'Password Updated' : 'Link Not Valid'}</Text>
+        <Text style={styles.message}>
+          {status === 'done' ? 'Sign in with your new password.' : problem}
+        </Text>
+        <TouchableOpacity style={styles.submitButton} onPress={backToSignIn}>
+          <Text style={styles.submitButtonText}>Back to Sign In</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const isFormValid = isValidPassword(password) && password === confirmPassword;
+
+  return (
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+      <Text style={styles.title}>Choose a New Password</Text>
+      <Text style={styles.message}>At least {MIN_PASSWORD_LENGTH} characters.</Text>
+
+      <TextInput
+        style={styles.input}
+        value={password}
+        onChangeText={setPassword}
+        placeholder="New password"
+        placeholderTextColor="#999999"
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="new-password"
+        editable={!isSubmitting}
+      />
+      <TextInput
+        style={styles.input}
+        value={confirmPassword}
+        onChangeText={setConfirmPassword}
+        placeholder="Confirm new password"
+        placeholderTextColor="#999999"
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="new-password"
+        editable={!isSubmitting}
+      />
+
+      <TouchableOpacity
+        style={[styles.submitButton, (!isFormValid || isSubmitting) && styles.submitButtonDisabled]}
+        onPress={handleSubmit}
+        disabled={!isFormValid || isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator color="white" size="small" />
+        ) : (
+          <Text style={styles.submitButtonText}>Set Password</Text>
+        )}
+      </TouchableOpacity>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 30,
+    backgroundColor: '#ffffff',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'stretch',
+    paddingHorizontal: 30,
+    backgroundColor: '#ffffff',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+    color: '#333333',
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+    color: '#666666',
+  },
+  input: {
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 12,
+    padding: 18,
+    fontSize: 16,
+    color: '#333333',
+    marginBottom: 20,
+  },
+  submitButton: {
+    backgroundColor: '#85432d',
+    borderRadius: 12,
+    padding: 18,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  submitButtonDisabled: {
+    backgroundColor: 'rgba(133, 67, 45, 0.5)',
+  },
+  submitButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { View, Text, ActivityIndicator, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../contexts/AuthContext';
+import { createLogger, describeError, hasStackErrorCode } from '../lib/stack-auth';
+
+const log = createLogger('VerifyEmail');
+
+// Opened by the link in an email verification email; works signed in or out
+export default function VerifyEmail() {
+  const router = useRouter();
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const { client } = useAuth();
+
+  useEffect(() => {
+    const handleLink = async () => {
+      if (!code) {
+        log.warn('Verification link without a code');
+        router.replace('/');
+        return;
+      }
+
+      const result = await client.verifyEmail(code);
+      if (result.success) {
+        Alert.alert('Email verified', 'Thanks for confirming your email address.');
+      } else if (!hasStackErrorCode(result.error, 'VERIFICATION_CODE_ALREADY_USED')) {
+        log.warn('Email verification failed', { error: result.error });
+        Alert.alert('Verification link', describeError(result.error));
+      }
+      // A signed-in user was reloaded by the client, which clears the profile banner
+      router.replace('/');
+    };
+
+    handleLink();
+  }, [code, router, client]);
+
+  return (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: '#f8f9fa'
+    }}>
+      <ActivityIndicator size="large" color="#007AFF" />
+      <Text style={{
+        marginTop: 16,
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center'
+      }}>
+        Verifying your email...
+      </Text>
+    </View>
+  );
+}
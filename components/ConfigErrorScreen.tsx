@@ -0,0 +1,85 @@
+import React from 'react';
+import { SafeAreaView, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { ConfigIssue } from '../lib/stack-auth';
+
+interface ConfigErrorScreenProps {
+  issues: ConfigIssue[];
+  // Development builds list every issue; production builds only show a generic message
+  showDetails: boolean;
+}
+
+export const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ issues, showDetails }) => {
+  if (!showDetails) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text style={styles.title}>Something went wrong</Text>
+          <Text style={styles.subtitle}>The app could not start. Please try again later or update to the latest version.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>Stack Auth is misconfigured</Text>
+        <Text style={styles.subtitle}>
+          Fix the following in your .env file, then restart the bundler with `npx expo start --clear`:
+        </Text>
+        {issues.map(issue => (
+          <View key={`${issue.variable}:${issue.message}`} style={styles.issue}>
+            <Text style={styles.variable}>{issue.variable}</Text>
+            <Text style={styles.message}>{issue.message}</Text>
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  issue: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF3B30',
+    padding: 12,
+    marginBottom: 12,
+  },
+  variable: {
+    fontFamily: 'SpaceMono',
+    fontSize: 13,
+    color: '#333',
+    marginBottom: 4,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
@@ -0,0 +1,65 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useResendVerificationEmail } from '../hooks/useResendVerificationEmail';
+
+// Stays on the profile until the primary email is verified
+export const EmailVerificationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const { isSending, resend } = useResendVerificationEmail();
+
+  if (!user?.email || user.primaryEmailVerified) return null;
+
+  return (
+    <View style={styles.banner}>
+      <View style={styles.messageRow}>
+        <Ionicons name="mail-unread-outline" size={20} color="#b45309" />
+        <Text style={styles.message}>
+          Verify {user.email} using the link we emailed you.
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.resendButton} onPress={resend} disabled={isSending}>
+        {isSending ? (
+          <ActivityIndicator size="small" color="#b45309" />
+        ) : (
+          <Text style={styles.resendButtonText}>Resend verification email</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fcd34d',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  messageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  message: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#92400e',
+  },
+  resendButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#b45309',
+    alignItems: 'center',
+  },
+  resendButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#b45309',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -16,139 +16,318 @@ import {
   View,
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
+import { Account, createLogger, describeError, StackAuthError } from '../lib/stack-auth';
+import { isValidEmail, isValidPassword, MIN_PASSWORD_LENGTH } from '../lib/validation';
 import { GoogleSigninButton } from '@react-native-google-signin/google-signin';
 
-type AuthMode = 'signin' | 'signup';
+const log = createLogger('LoginScreen');
+
+// 'code' signs in with a one-time code sent by email; 'forgot' sends a
+// password reset link
+type AuthMode = 'signin' | 'signup' | 'code' | 'forgot';
 
 const { width, height } = Dimensions.get('window');
 
+// How long before another sign-in code may be requested
+const RESEND_COOLDOWN_MS = 30 * 1000;
+const SIGN_IN_CODE_LENGTH = 6;
+
+const getAuthErrorMessage = (error: StackAuthError) => {
+  if (error.kind === 'stack') {
+    switch (error.code) {
+      case 'EMAIL_PASSWORD_MISMATCH':
+        return 'Incorrect email or password';
+      case 'USER_EMAIL_ALREADY_EXISTS':
+        return 'An account with this email already exists';
+      case 'PASSWORD_AUTHENTICATION_NOT_ENABLED':
+        return 'Password sign-in is not enabled for this app';
+      case 'SIGN_UP_NOT_ENABLED':
+        return 'New sign-ups are currently disabled';
+      case 'VERIFICATION_CODE_NOT_FOUND':
+        return 'That code is not valid. Check the email and try again';
+      case 'VERIFICATION_CODE_EXPIRED':
+        return 'That code has expired. Request a new one';
+      case 'VERIFICATION_CODE_ALREADY_USED':
+        return 'That code has already been used. Request a new one';
+    }
+  }
+  return describeError(error);
+};
+
 export const LoginScreen: React.FC = () => {
-  console.log('LoginScreen component loaded');
   const [mode, setMode] = useState<AuthMode>('signin');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // When password sign in for `email` may be tried again, after too many attempts
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  // Set once a sign-in code was sent; a typed code is only valid with it
+  const [codeNonce, setCodeNonce] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [resendAvailableAt, setResendAvailableAt] = useState<number | null>(null);
+  const [resetEmailSentTo, setResetEmailSentTo] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
   
-  const { signIn, signUp, signInWithOAuth, availableOAuthProviders, isLoading } = useAuth();
-  
-  console.log('LoginScreen state:', { mode, email: email ? 'has email' : 'no email', isSubmitting });
+  const {
+    client,
+    signIn,
+    signUp,
+    sendSignInCode,
+    signInWithCode,
+    sendPasswordResetEmail,
+    signInWithOAuth,
+    availableOAuthProviders,
+    isLoading,
+    accounts,
+    switchAccount,
+    track,
+  } = useAuth();
 
-  const validateEmail = (email: string) => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
+  // Tells how far people get before giving up; viewed once per screen
+  useEffect(() => {
+    track({ type: 'login_screen', action: 'viewed', mode: 'signin' });
+  }, [track]);
 
-  const validatePassword = (password: string) => {
-    return password.length >= 6;
-  };
+  // A lockout outlives the app, so look it up for whatever email is entered
+  useEffect(() => {
+    let cancelled = false;
+    if (mode !== 'signin' || !email.trim()) {
+      setLockedUntil(null);
+      return;
+    }
+    client.getSignInLockout(email).then(lockoutMs => {
+      if (!cancelled) setLockedUntil(lockoutMs > 0 ? Date.now() + lockoutMs : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, email, mode]);
+
+  // Ticks once a second while a countdown is showing
+  useEffect(() => {
+    if (lockedUntil === null && resendAvailableAt === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (lockedUntil !== null && current >= lockedUntil) setLockedUntil(null);
+      if (resendAvailableAt !== null && current >= resendAvailableAt) setResendAvailableAt(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil, resendAvailableAt]);
+
+  const secondsUntil = (time: number | null) => (time === null ? 0 : Math.max(0, Math.ceil((time - now) / 1000)));
+  const lockoutSeconds = secondsUntil(lockedUntil);
+  const resendSeconds = secondsUntil(resendAvailableAt);
 
   const handleSubmit = async () => {
-    console.log('=== Sign-in button pressed ===');
-    console.log('Current state:', { mode, email, isSubmitting });
-    
-    if (isSubmitting) {
-      console.log('Already submitting, returning early');
+    if (isSubmitting) return;
+
+    if (mode === 'signin' && lockoutSeconds > 0) {
+      log.debug('Sign in locked out', { lockoutSeconds });
       return;
     }
     
     if (!email.trim() || !password.trim()) {
-      console.log('Validation failed: empty fields');
+      track({ type: 'login_screen', action: 'validation_failed', mode, reason: 'empty_fields' });
       Alert.alert('Error', 'Please fill in all fields');
       return;
     }
 
-    if (!validateEmail(email)) {
-      console.log('Validation failed: invalid email');
+    if (!isValidEmail(email)) {
+      track({ type: 'login_screen', action: 'validation_failed', mode, reason: 'invalid_email' });
       Alert.alert('Error', 'Please enter a valid email address');
       return;
     }
 
-    if (!validatePassword(password)) {
-      console.log('Validation failed: password too short');
-      Alert.alert('Error', 'Password must be at least 6 characters long');
+    if (!isValidPassword(password)) {
+      track({ type: 'login_screen', action: 'validation_failed', mode, reason: 'password_too_short' });
+      Alert.alert('Error', `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
       return;
     }
 
     if (mode === 'signup' && password !== confirmPassword) {
-      console.log('Validation failed: passwords do not match');
+      track({ type: 'login_screen', action: 'validation_failed', mode, reason: 'passwords_do_not_match' });
       Alert.alert('Error', 'Passwords do not match');
       return;
     }
 
+    track({ type: 'login_screen', action: 'submitted', mode });
     setIsSubmitting(true);
-    console.log('Submitting state set to true');
 
     try {
       if (mode === 'signin') {
-        console.log('Attempting sign in with email:', email);
         const result = await signIn(email, password);
-        console.log('Sign in result:', result);
-        
         if (!result.success) {
-          console.log('Sign in failed:', result.error);
-          Alert.alert('Error', result.error || 'Sign in failed');
-        } else {
-          console.log('Sign in successful');
+          log.debug('Sign in failed', { error: result.error });
+          // The countdown under the form explains a lockout; a wrong password
+          // may also have started one
+          const lockoutMs = await client.getSignInLockout(email);
+          setLockedUntil(lockoutMs > 0 ? Date.now() + lockoutMs : null);
+          if (result.error.kind !== 'rate_limited') {
+            Alert.alert('Error', getAuthErrorMessage(result.error));
+          }
         }
       } else {
-        console.log('Attempting sign up with email:', email);
         const result = await signUp(email, password);
-        console.log('Sign up result:', result);
-        
         if (!result.success) {
-          console.log('Sign up failed:', result.error);
-          Alert.alert('Error', result.error || 'Sign up failed');
-        } else {
-          console.log('Sign up successful');
+          log.debug('Sign up failed', { error: result.error });
+          Alert.alert('Error', getAuthErrorMessage(result.error));
         }
       }
       // Success is handled by the AuthContext which will update the app state
     } catch (error) {
-      console.error('Authentication error:', error);
-      console.error('Error message:', error);
+      log.error('Authentication error', { error });
       Alert.alert('Error', 'An unexpected error occurred');
     } finally {
       setIsSubmitting(false);
-      console.log('Submitting state set to false');
-      console.log('=== Authentication process completed ===');
     }
   };
 
+  const handleSendCode = async () => {
+    if (isSubmitting || resendSeconds > 0) return;
+
+    if (!isValidEmail(email.trim())) {
+      track({ type: 'login_screen', action: 'validation_failed', mode, reason: 'invalid_email' });
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+
+    track({ type: 'login_screen', action: 'submitted', mode });
+    setIsSubmitting(true);
+    try {
+      const result = await sendSignInCode(email.trim());
+      if (result.success) {
+        setCodeNonce(result.data.nonce);
+        setCode('');
+        setResendAvailableAt(Date.now() + RESEND_COOLDOWN_MS);
+      } else {
+        if (result.error.kind === 'rate_limited') {
+          setResendAvailableAt(Date.now() + (result.error.retryAfterMs ?? RESEND_COOLDOWN_MS));
+        }
+        Alert.alert('Error', getAuthErrorMessage(result.error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (isSubmitting || !codeNonce) return;
+
+    if (code.trim().length !== SIGN_IN_CODE_LENGTH) {
+      track({ type: 'login_screen', action: 'validation_failed', mode, reason: 'invalid_code' });
+      Alert.alert('Error', `Enter the ${SIGN_IN_CODE_LENGTH}-character code from the email`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // Success is handled by the AuthContext which will update the app state
+      const result = await signInWithCode(code, codeNonce);
+      if (!result.success) {
+        Alert.alert('Error', getAuthErrorMessage(result.error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Back to entering an email, e.g. after a typo
+  const changeCodeEmail = () => {
+    setCodeNonce(null);
+    setCode('');
+  };
+
+  const handleSendResetEmail = async () => {
+    if (isSubmitting) return;
+
+    if (!isValidEmail(email.trim())) {
+      track({ type: 'login_screen', action: 'validation_failed', mode, reason: 'invalid_email' });
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+
+    track({ type: 'login_screen', action: 'submitted', mode });
+    setIsSubmitting(true);
+    try {
+      const result = await sendPasswordResetEmail(email.trim());
+      if (result.success) {
+        setResetEmailSentTo(email.trim());
+      } else {
+        Alert.alert('Error', getAuthErrorMessage(result.error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchToForgotMode = () => {
+    track({ type: 'login_screen', action: 'mode_switched', mode: 'forgot' });
+    setMode('forgot');
+    setPassword('');
+    setResetEmailSentTo(null);
+  };
+
+  const switchToCodeMode = () => {
+    track({ type: 'login_screen', action: 'mode_switched', mode: 'code' });
+    setMode('code');
+    setPassword('');
+    setConfirmPassword('');
+  };
+
   const toggleMode = () => {
-    setMode(mode === 'signin' ? 'signup' : 'signin');
+    const nextMode = mode === 'signin' ? 'signup' : 'signin';
+    track({ type: 'login_screen', action: 'mode_switched', mode: nextMode });
+    setMode(nextMode);
+    setCodeNonce(null);
+    setCode('');
+    setResetEmailSentTo(null);
     setEmail('');
     setPassword('');
     setConfirmPassword('');
   };
 
   const handleOAuthSignIn = async (provider: string) => {
-    console.log('OAuth sign-in initiated for provider:', provider);
+    log.debug('OAuth sign in initiated', { provider });
     setIsSubmitting(true);
     
     try {
       const result = await signInWithOAuth(provider);
       
-      if (result.success && result.authUrl) {
-        console.log('Opening OAuth URL:', result.authUrl);
+      if (result.success) {
+        const { authUrl } = result.data;
         // Open the OAuth URL in the system browser
-        const supported = await Linking.canOpenURL(result.authUrl);
+        const supported = await Linking.canOpenURL(authUrl);
         if (supported) {
-          await Linking.openURL(result.authUrl);
+          await Linking.openURL(authUrl);
         } else {
           Alert.alert('Error', 'Cannot open OAuth provider');
         }
       } else {
-        Alert.alert('Error', result.error || 'OAuth sign-in failed');
+        Alert.alert('Error', getAuthErrorMessage(result.error));
       }
     } catch (error) {
-      console.error('OAuth sign-in error:', error);
+      log.error('OAuth sign in error', { error });
       Alert.alert('Error', 'OAuth sign-in failed');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleContinueAs = async (account: Account) => {
+    setIsSubmitting(true);
+    try {
+      const result = await switchAccount(account.userId);
+      if (!result.success) {
+        Alert.alert('Error', getAuthErrorMessage(result.error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const getProviderDisplayName = (provider: string) => {
     const providerNames: { [key: string]: string } = {
       'google': 'Google',
@@ -176,12 +355,27 @@ export const LoginScreen: React.FC = () => {
     return providerIcons[provider] || '🔐';
   };
 
+  const getSubtitle = () => {
+    switch (mode) {
+      case 'signin':
+        return 'Sign in to continue';
+      case 'signup':
+        return 'Join us today';
+      case 'code':
+        return codeNonce ? `Enter the code we sent to ${email.trim()}` : "We'll email you a sign-in code";
+      case 'forgot':
+        return resetEmailSentTo
+          ? `If ${resetEmailSentTo} has an account, we sent it a link to reset the password`
+          : "We'll email you a link to reset your password";
+    }
+  };
+
   const isFormValid = () => {
-    const basicValid = email.trim() && password.trim() && validateEmail(email) && validatePassword(password);
+    const basicValid = email.trim() && password.trim() && isValidEmail(email) && isValidPassword(password);
     if (mode === 'signup') {
       return basicValid && confirmPassword.trim() && password === confirmPassword;
     }
-    return basicValid;
+    return basicValid && lockoutSeconds === 0;
   };
 
   if (isLoading) {
@@ -221,14 +415,34 @@ export const LoginScreen: React.FC = () => {
           {/* Form Section */}
           <View style={styles.formContainer}>
             <Text style={styles.title}>
-              {mode === 'signin' ? 'Welcome Back' : 'Create Account'}
-            </Text>
-            <Text style={styles.subtitle}>
-              {mode === 'signin' 
-                ? 'Sign in to continue' 
-                : 'Join us today'
-              }
+              {mode === 'signup' ? 'Create Account' : mode === 'forgot' ? 'Reset Password' : 'Welcome Back'}
             </Text>
+            <Text style={styles.subtitle}>{getSubtitle()}</Text>
+
+            {/* Accounts still signed in on this device */}
+            {mode === 'signin' && accounts.length > 0 && (
+              <View style={styles.oauthContainer}>
+                {accounts.map((account) => (
+                  <TouchableOpacity
+                    key={account.userId}
+                    style={styles.oauthButton}
+                    onPress={() => handleContinueAs(account)}
+                    disabled={isSubmitting || isLoading}
+                  >
+                    <Text style={styles.oauthIcon}>👤</Text>
+                    <Text style={styles.oauthButtonText}>
+                      Continue as {account.displayName || account.email || account.userId}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+
+                <View style={styles.dividerContainer}>
+                  <View style={styles.dividerLine} />
+                  <Text style={styles.dividerText}>or</Text>
+                  <View style={styles.dividerLine} />
+                </View>
+              </View>
+            )}
 
             {/* OAuth Providers */}
             {availableOAuthProviders && availableOAuthProviders.length > 0 && (
@@ -280,23 +494,43 @@ export const LoginScreen: React.FC = () => {
                  keyboardType="email-address"
                  autoCapitalize="none"
                  autoCorrect={false}
-                 editable={!isSubmitting}
+                 editable={!isSubmitting && !(mode === 'code' && codeNonce)}
                />
              </View>
 
-             <View style={styles.inputContainer}>
-               <TextInput
-                 style={styles.input}
-                 value={password}
-                 onChangeText={setPassword}
-                 placeholder="Password"
-                 placeholderTextColor="#999999"
-                 secureTextEntry
-                 autoCapitalize="none"
-                 autoCorrect={false}
-                 editable={!isSubmitting}
-               />
-             </View>
+             {mode === 'code' && codeNonce && (
+               <View style={styles.inputContainer}>
+                 <TextInput
+                   style={styles.input}
+                   value={code}
+                   onChangeText={setCode}
+                   placeholder="Sign-in code"
+                   placeholderTextColor="#999999"
+                   autoCapitalize="characters"
+                   autoCorrect={false}
+                   autoComplete="one-time-code"
+                   textContentType="oneTimeCode"
+                   maxLength={SIGN_IN_CODE_LENGTH}
+                   editable={!isSubmitting}
+                 />
+               </View>
+             )}
+
+             {(mode === 'signin' || mode === 'signup') && (
+               <View style={styles.inputContainer}>
+                 <TextInput
+                   style={styles.input}
+                   value={password}
+                   onChangeText={setPassword}
+                   placeholder="Password"
+                   placeholderTextColor="#999999"
+                   secureTextEntry
+                   autoCapitalize="none"
+                   autoCorrect={false}
+                   editable={!isSubmitting}
+                 />
+               </View>
+             )}
 
              {mode === 'signup' && (
                <View style={styles.inputContainer}>
@@ -314,22 +548,93 @@ export const LoginScreen: React.FC = () => {
                </View>
              )}
 
-            <TouchableOpacity
-              style={[
-                styles.submitButton,
-                (!isFormValid() || isSubmitting) && styles.submitButtonDisabled
-              ]}
-              onPress={handleSubmit}
-              disabled={!isFormValid() || isSubmitting}
-            >
-              {isSubmitting ? (
-                <ActivityIndicator color="white" size="small" />
-              ) : (
-                <Text style={styles.submitButtonText}>
-                  {mode === 'signin' ? 'Sign In' : 'Create Account'}
-                </Text>
-              )}
-            </TouchableOpacity>
+            {mode === 'signin' && lockoutSeconds > 0 && (
+              <Text style={styles.lockoutText}>
+                Too many attempts. Try again in {lockoutSeconds}s
+              </Text>
+            )}
+
+            {mode === 'forgot' ? (
+              <TouchableOpacity
+                style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+                onPress={handleSendResetEmail}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text style={styles.submitButtonText}>
+                    {resetEmailSentTo ? 'Send Again' : 'Send Reset Link'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ) : mode === 'code' ? (
+              <TouchableOpacity
+                style={[
+                  styles.submitButton,
+                  (isSubmitting || (!codeNonce && resendSeconds > 0)) && styles.submitButtonDisabled
+                ]}
+                onPress={codeNonce ? handleVerifyCode : handleSendCode}
+                disabled={isSubmitting || (!codeNonce && resendSeconds > 0)}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text style={styles.submitButtonText}>
+                    {codeNonce
+                      ? 'Sign In'
+                      : resendSeconds > 0
+                        ? `Email Me a Code (${resendSeconds}s)`
+                        : 'Email Me a Code'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[
+                  styles.submitButton,
+                  (!isFormValid() || isSubmitting) && styles.submitButtonDisabled
+                ]}
+                onPress={handleSubmit}
+                disabled={!isFormValid() || isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text style={styles.submitButtonText}>
+                    {mode === 'signin' ? 'Sign In' : 'Create Account'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            )}
+
+            {mode === 'signin' && (
+              <>
+                <TouchableOpacity style={styles.switchButton} onPress={switchToForgotMode} disabled={isSubmitting}>
+                  <Text style={styles.switchButtonText}>Forgot password?</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.switchButton} onPress={switchToCodeMode} disabled={isSubmitting}>
+                  <Text style={styles.switchButtonText}>Email me a sign-in code instead</Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {mode === 'code' && codeNonce && (
+              <>
+                <TouchableOpacity
+                  style={styles.switchButton}
+                  onPress={handleSendCode}
+                  disabled={isSubmitting || resendSeconds > 0}
+                >
+                  <Text style={[styles.switchButtonText, resendSeconds > 0 && styles.switchButtonTextDisabled]}>
+                    {resendSeconds > 0 ? `Resend code in ${resendSeconds}s` : 'Resend code'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.switchButton} onPress={changeCodeEmail} disabled={isSubmitting}>
+                  <Text style={styles.switchButtonText}>Use a different email</Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
 
           {/* Bottom Sign Up Section */}
@@ -343,7 +648,11 @@ export const LoginScreen: React.FC = () => {
               <Text style={styles.switchButtonText}>
                 {mode === 'signin' 
                   ? "Don't have an account? Sign Up" 
-                  : "Already have an account? Sign In"
+                  : mode === 'signup'
+                    ? "Already have an account? Sign In"
+                    : mode === 'forgot'
+                      ? 'Back to sign in'
+                      : 'Sign in with a password instead'
                 }
               </Text>
             </TouchableOpacity>
@@ -456,6 +765,12 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  lockoutText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   bottomContainer: {
     paddingBottom: Platform.OS === 'ios' ? 40 : 20,
     alignItems: 'center',
@@ -476,6 +791,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  switchButtonTextDisabled: {
+    color: '#999999',
+  },
   oauthContainer: {
     marginBottom: 30,
   },
@@ -0,0 +1,77 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect } from 'react';
+import { Alert, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useAuth } from '../contexts/AuthContext';
+import { describeError, MutationReplayOutcome } from '../lib/stack-auth';
+
+const FIELD_LABELS: Record<string, string> = {
+  displayName: 'name',
+  profileImageUrl: 'profile image',
+  clientMetadata: 'settings',
+};
+
+const describeMutation = (outcome: MutationReplayOutcome) =>
+  outcome.mutation.kind === 'updateTeam' ? 'team' : 'team profile';
+
+// Reports queued edits that could not be applied once the device was back online
+const reportReplayOutcome = (outcome: MutationReplayOutcome) => {
+  if (outcome.status === 'conflict') {
+    const fields = outcome.fields.map(field => FIELD_LABELS[field] ?? field).join(', ');
+    Alert.alert(
+      'Offline change not applied',
+      `Your offline change to the ${describeMutation(outcome)} ${fields} was not saved because it was changed elsewhere in the meantime.`
+    );
+  } else if (outcome.status === 'failed') {
+    Alert.alert(
+      'Offline change not applied',
+      `Your offline change to the ${describeMutation(outcome)} could not be saved. ${describeError(outcome.error)}`
+    );
+  }
+};
+
+// Bottom bar shown while offline or while offline edits are waiting to sync
+export const OfflineBanner: React.FC = () => {
+  const { client, isOnline, isAuthenticated, pendingMutations } = useAuth();
+  const insets = useSafeAreaInsets();
+
+  useEffect(() => client.onMutationReplayed(reportReplayOutcome), [client]);
+
+  const pendingCount = pendingMutations.length;
+  if (isOnline && pendingCount === 0) return null;
+
+  const pendingText = pendingCount === 1 ? '1 change waiting to sync' : `${pendingCount} changes waiting to sync`;
+  let message: string;
+  if (!isOnline) {
+    message = isAuthenticated ? "You're offline. Showing saved data." : "You're offline.";
+    if (pendingCount > 0) message += ` ${pendingText}.`;
+  } else {
+    message = `Back online. Syncing ${pendingText.replace(' waiting to sync', '')}...`;
+  }
+
+  return (
+    <View style={[styles.banner, !isOnline && styles.offline, { paddingBottom: 10 + insets.bottom }]}>
+      <Ionicons name={isOnline ? 'sync-outline' : 'cloud-offline-outline'} size={18} color="#fff" />
+      <Text style={styles.text}>{message}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
+  offline: {
+    backgroundColor: '#666',
+  },
+  text: {
+    color: '#fff',
+    fontSize: 14,
+    marginLeft: 8,
+    flex: 1,
+  },
+});
@@ -1,14 +1,17 @@
 import React from 'react';
-import { ActivityIndicator, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
+import { useResendVerificationEmail } from '../hooks/useResendVerificationEmail';
 import { LoginScreen } from './LoginScreen';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Also keeps out signed-in users whose primary email is not verified yet
+  requireVerifiedEmail?: boolean;
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requireVerifiedEmail = false }) => {
+  const { user, isAuthenticated, isLoading } = useAuth();
 
   if (isLoading) {
     return (
@@ -22,9 +25,41 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <LoginScreen />;
   }
 
+  if (requireVerifiedEmail && !user?.primaryEmailVerified) {
+    return <VerifyEmailRequired />;
+  }
+
   return <>{children}</>;
 };
 
+const VerifyEmailRequired: React.FC = () => {
+  const { user, signOut } = useAuth();
+  const { isSending, resend } = useResendVerificationEmail();
+
+  return (
+    <View style={styles.verifyContainer}>
+      <Text style={styles.title}>Verify Your Email</Text>
+      <Text style={styles.message}>
+        {user?.email
+          ? `Open the link we sent to ${user.email} to continue.`
+          : 'Add an email address to your account to continue.'}
+      </Text>
+      {user?.email && (
+        <TouchableOpacity style={styles.primaryButton} onPress={resend} disabled={isSending}>
+          {isSending ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Resend Verification Email</Text>
+          )}
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.secondaryButton} onPress={signOut}>
+        <Text style={styles.secondaryButtonText}>Sign Out</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
 const styles = StyleSheet.create({
   loadingContainer: {
     flex: 1,
@@ -32,4 +67,45 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: '#f8f9fa',
   },
-});
\ No newline at end of file
+  verifyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 30,
+    backgroundColor: '#ffffff',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+    color: '#333333',
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+    color: '#666666',
+  },
+  primaryButton: {
+    backgroundColor: '#85432d',
+    borderRadius: 12,
+    padding: 18,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    padding: 18,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  secondaryButtonText: {
+    color: '#85432d',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
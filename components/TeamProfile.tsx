@@ -1,14 +1,15 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as ImageManipulator from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
+  FlatList,
   Image,
   Modal,
   Platform,
   SafeAreaView,
-  ScrollView,
   StatusBar,
   StyleSheet,
   Text,
@@ -16,38 +17,46 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
-import { stackAuthClient } from '../lib/stack-auth';
+import { useStackAuthClient } from '../contexts/AuthContext';
+import {
+  createLogger,
+  describeError,
+  hasStackErrorCode,
+  StackAuthError,
+  Team,
+  TeamInvitation,
+  TeamMember,
+  TeamMemberProfileUpdate,
+  TeamUpdate,
+} from '../lib/stack-auth';
+
+const log = createLogger('TeamProfile');
 
-// Environment configuration
-const TEAM_INVITATION_BASE_URL = process.env.EXPO_PUBLIC_TEAM_INVITATION_BASE_URL;
+// Members load a page at a time as the list scrolls
+const MEMBERS_PAGE_SIZE = 50;
+
+// Cache entries of this team: its details and its team_id-scoped lists
+const isTeamCacheKey = (key: string, teamId: string) =>
+  key === `teams/${teamId}` || key.split(/[?&]/).includes(`team_id=${teamId}`);
 
 interface TeamProfileProps {
   teamId: string;
   onBack: (shouldRefresh?: boolean) => void;
 }
 
-interface TeamMember {
-  user_id: string;
-  display_name: string;
-  profile_image_url?: string;
-  email?: string;
-  role?: string;
-  bio?: string;
-}
-
-interface TeamInvitation {
-  id: string;
-  team_id: string;
-  recipient_email: string;
-  expires_at_millis: number;
-}
-
-interface Team {
-  id: string;
-  display_name: string;
-  profile_image_url?: string;
-  client_metadata?: any;
-}
+// Maps team API errors to messages, calling out the cases a team member can act on
+const getTeamErrorMessage = (error: StackAuthError, action: string) => {
+  if (error.kind === 'forbidden' || hasStackErrorCode(error, 'TEAM_PERMISSION_REQUIRED')) {
+    return `You do not have permission to ${action}.`;
+  }
+  if (hasStackErrorCode(error, 'TEAM_NOT_FOUND')) {
+    return 'This team no longer exists.';
+  }
+  if (hasStackErrorCode(error, 'TEAM_MEMBERSHIP_NOT_FOUND')) {
+    return 'This user is no longer a member of the team.';
+  }
+  return describeError(error);
+};
 
 // Utility function to compress and crop image to square format under 100KB
 const processImageForUpload = async (imageUri: string): Promise<string> => {
@@ -117,8 +126,13 @@ const processImageForUpload = async (imageUri: string): Promise<string> => {
 };
 
 export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
+  const stackAuthClient = useStackAuthClient();
   const [team, setTeam] = useState<Team | null>(null);
   const [members, setMembers] = useState<TeamMember[]>([]);
+  // Cursor of the next page of members, null once all are loaded
+  const [membersCursor, setMembersCursor] = useState<string | null>(null);
+  const [loadingMoreMembers, setLoadingMoreMembers] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
   const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -133,82 +147,146 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
   const [editMemberProfileImage, setEditMemberProfileImage] = useState('');
   const [imageProcessing, setImageProcessing] = useState(false);
 
+  // Cancels the in-flight load when the team changes or the screen goes away
+  const loadControllerRef = useRef<AbortController | null>(null);
+  // Cancels loading further member pages; only a reload from the first page does
+  const moreMembersControllerRef = useRef<AbortController | null>(null);
+  // Whether the first page of members has arrived for this team
+  const membersLoadedRef = useRef(false);
+  // Admins page through the server profiles, which include emails
+  const membersSourceRef = useRef<'profiles' | 'members'>('members');
+  // Guards against onEndReached firing again before the next page arrives
+  const loadingMoreRef = useRef(false);
+
   useEffect(() => {
+    membersLoadedRef.current = false;
     loadTeamData();
+    // Background revalidations and invalidations of this team re-read from the
+    // cache without the spinner. Member pages aren't cached, and reloading them
+    // would throw away the pages scrolled through so far, so they only load
+    // again if the update cancelled the load of the first page.
+    const unsubscribe = stackAuthClient.onCacheUpdated(key => {
+      if (isTeamCacheKey(key, teamId)) loadTeamData(false, !membersLoadedRef.current);
+    });
+    return () => {
+      unsubscribe();
+      loadControllerRef.current?.abort();
+      moreMembersControllerRef.current?.abort();
+    };
   }, [teamId]);
 
-  const loadTeamData = async () => {
-    setLoading(true);
-    setError(null);
+  const fetchMembersPage = (cursor: string | undefined, signal?: AbortSignal) =>
+    membersSourceRef.current === 'profiles'
+      ? stackAuthClient.getTeamMemberProfilesPage(teamId, { cursor, limit: MEMBERS_PAGE_SIZE }, { signal })
+      : stackAuthClient.getTeamMembersPage(teamId, { cursor, limit: MEMBERS_PAGE_SIZE }, { signal });
+
+  const loadTeamData = async (showSpinner: boolean = true, reloadMembers: boolean = true) => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    const { signal } = controller;
+
+    if (reloadMembers) {
+      moreMembersControllerRef.current?.abort();
+    }
+
+    if (showSpinner) {
+      setLoading(true);
+      setError(null);
+    }
 
     try {
       // Load team details
-      const teamResult = await stackAuthClient.getTeam(teamId);
-      if (teamResult.success && teamResult.team) {
-        setTeam(teamResult.team);
-        setEditTeamName(teamResult.team.display_name);
-        setEditTeamImage(teamResult.team.profile_image_url || '');
+      const teamResult = await stackAuthClient.getTeam(teamId, { signal });
+      if (signal.aborted) return;
+      if (teamResult.success) {
+        setTeam(teamResult.data);
       } else {
-        setError(teamResult.error || 'Failed to load team');
+        setError(getTeamErrorMessage(teamResult.error, 'view this team'));
         return;
       }
 
+      // Not awaited: it only fills the cache that offline edits of the user's
+      // own profile are later checked against for conflicts
+      stackAuthClient.getOwnTeamMemberProfile(teamId, { signal });
+
       // Check if current user has admin permissions to view emails
-      const permissionsResult = await stackAuthClient.getTeamPermissions(teamId, 'me');
+      const permissionsResult = await stackAuthClient.getTeamPermissions(teamId, 'me', { signal });
+      if (signal.aborted) return;
       let isAdmin = false;
       
       if (permissionsResult.success) {
         // Check if user has admin permissions (can manage team, remove members, etc.)
         const adminPermissions = ['$update_team', '$delete_team', '$remove_members', '$manage_api_keys', 'team_admin'];
-        isAdmin = permissionsResult.permissions?.some(permission => 
+        isAdmin = permissionsResult.data.some(permission => 
           adminPermissions.includes(permission.id)
-        ) || false;
-        console.log('TeamProfile: User admin status:', isAdmin);
+        );
+        log.debug('Admin status', { isAdmin });
       }
 
-      // Load team members
-      const membersResult = await stackAuthClient.getTeamMembers(teamId);
-      if (membersResult.success) {
-        const teamMembers = membersResult.members || [];
-        
-        // Only fetch email addresses if user is admin
-        if (isAdmin) {
-          console.log('TeamProfile: User is admin, attempting to fetch emails');
-          // For admin users, fetch actual email addresses using server API
-          const profilesResult = await stackAuthClient.getTeamMemberProfiles(teamId);
-          if (profilesResult.success && profilesResult.profiles) {
-            const membersWithEmails = teamMembers.map(member => {
-              const profile = profilesResult.profiles?.find(p => p.user_id === member.user_id);
-              return {
-                ...member,
-                email: profile?.user?.primary_email || 'Email not available'
-              };
-            });
-            setMembers(membersWithEmails);
-          } else {
-            // Fallback to placeholder if API call fails
-            const membersWithEmails = teamMembers.map(member => ({
-              ...member,
-              email: 'Email visible to admins only'
-            }));
-            setMembers(membersWithEmails);
-          }
-        } else {
-          console.log('TeamProfile: User is not admin, hiding emails');
-          // For non-admin users, don't show emails
-          setMembers(teamMembers);
+      // Load the first page of team members; only admins see emails
+      if (reloadMembers) {
+        membersSourceRef.current = isAdmin ? 'profiles' : 'members';
+        let membersResult = await fetchMembersPage(undefined, signal);
+        if (signal.aborted) return;
+        if (!membersResult.success && membersSourceRef.current === 'profiles') {
+          log.info('Could not load member emails, falling back to the member list', { error: membersResult.error });
+          membersSourceRef.current = 'members';
+          membersResult = await fetchMembersPage(undefined, signal);
+          if (signal.aborted) return;
+        }
+        if (membersResult.success) {
+          membersLoadedRef.current = true;
+          setMembers(membersResult.data.items);
+          setMembersCursor(membersResult.data.nextCursor);
         }
       }
 
       // Load team invitations
-      const invitationsResult = await stackAuthClient.getTeamInvitations(teamId);
+      const invitationsResult = await stackAuthClient.getTeamInvitations(teamId, { signal });
+      if (signal.aborted) return;
       if (invitationsResult.success) {
-        setInvitations(invitationsResult.invitations || []);
+        setInvitations(invitationsResult.data);
       }
     } catch (err) {
       setError('Failed to load team data');
     } finally {
-      setLoading(false);
+      if (!signal.aborted) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadMoreMembers = async () => {
+    if (!membersCursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMoreMembers(true);
+    // A reload of the members aborts this and starts over from the first page
+    const controller = new AbortController();
+    moreMembersControllerRef.current = controller;
+    const { signal } = controller;
+    try {
+      const result = await fetchMembersPage(membersCursor, signal);
+      if (signal.aborted) return;
+      if (result.success) {
+        setMembers(current => {
+          const loaded = new Set(current.map(member => member.userId));
+          return [...current, ...result.data.items.filter(member => !loaded.has(member.userId))];
+        });
+        setMembersCursor(result.data.nextCursor);
+      }
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMoreMembers(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await loadTeamData(false);
+    } finally {
+      setRefreshing(false);
     }
   };
 
@@ -224,10 +302,10 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
           onPress: async () => {
             const result = await stackAuthClient.removeTeamMember(teamId, userId);
             if (result.success) {
-              setMembers(members.filter(m => m.user_id !== userId));
+              setMembers(current => current.filter(m => m.userId !== userId));
               Alert.alert('Success', 'Member removed successfully');
             } else {
-              Alert.alert('Error', result.error || 'Failed to remove member');
+              Alert.alert('Error', getTeamErrorMessage(result.error, 'remove members'));
             }
           },
         },
@@ -241,11 +319,7 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
       return;
     }
 
-    const result = await stackAuthClient.sendTeamInvitation(
-      teamId,
-      inviteEmail.trim(),
-      TEAM_INVITATION_BASE_URL
-    );
+    const result = await stackAuthClient.sendTeamInvitation(teamId, inviteEmail.trim());
 
     if (result.success) {
       Alert.alert('Success', 'Invitation sent successfully');
@@ -253,31 +327,40 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
       setShowInviteModal(false);
       loadTeamData(); // Refresh invitations
     } else {
-      Alert.alert('Error', result.error || 'Failed to send invitation');
+      Alert.alert('Error', getTeamErrorMessage(result.error, 'invite members'));
     }
   };
 
+  const openEditModal = () => {
+    setEditTeamName(team?.displayName || '');
+    setEditTeamImage(team?.profileImageUrl || '');
+    setShowEditModal(true);
+  };
+
   const handleUpdateTeam = async () => {
     if (!editTeamName.trim()) {
       Alert.alert('Error', 'Team name cannot be empty');
       return;
     }
 
-    const updates: any = {
-      display_name: editTeamName.trim(),
+    const updates: TeamUpdate = {
+      displayName: editTeamName.trim(),
     };
 
     if (editTeamImage.trim()) {
-      updates.profile_image_url = editTeamImage.trim();
+      updates.profileImageUrl = editTeamImage.trim();
     }
 
     const result = await stackAuthClient.updateTeam(teamId, updates);
     if (result.success) {
-      setTeam(result.team);
+      setTeam(result.data);
       setShowEditModal(false);
       Alert.alert('Success', 'Team updated successfully');
+    } else if (result.error.kind === 'queued') {
+      setShowEditModal(false);
+      Alert.alert('Saved Offline', describeError(result.error));
     } else {
-      Alert.alert('Error', result.error || 'Failed to update team');
+      Alert.alert('Error', getTeamErrorMessage(result.error, 'edit this team'));
     }
   };
 
@@ -293,10 +376,10 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
           onPress: async () => {
             const result = await stackAuthClient.deleteTeamInvitation(invitationId, teamId);
             if (result.success) {
-              setInvitations(invitations.filter(i => i.id !== invitationId));
+              setInvitations(current => current.filter(i => i.id !== invitationId));
               Alert.alert('Success', 'Invitation deleted successfully');
             } else {
-              Alert.alert('Error', result.error || 'Failed to delete invitation');
+              Alert.alert('Error', getTeamErrorMessage(result.error, 'delete invitations'));
             }
           },
         },
@@ -305,17 +388,13 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
   };
 
   const handleResendInvitation = async (email: string) => {
-    const result = await stackAuthClient.sendTeamInvitation(
-      teamId,
-      email,
-      TEAM_INVITATION_BASE_URL
-    );
+    const result = await stackAuthClient.sendTeamInvitation(teamId, email);
 
     if (result.success) {
       Alert.alert('Success', 'Invitation resent successfully');
       loadTeamData(); // Refresh invitations
     } else {
-      Alert.alert('Error', result.error || 'Failed to resend invitation');
+      Alert.alert('Error', getTeamErrorMessage(result.error, 'invite members'));
     }
   };
 
@@ -334,7 +413,7 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
               Alert.alert('Success', 'Team deleted successfully');
               onBack(true);
             } else {
-              Alert.alert('Error', result.error || 'Failed to delete team');
+              Alert.alert('Error', getTeamErrorMessage(result.error, 'delete this team'));
             }
           },
         },
@@ -344,8 +423,8 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
 
   const handleEditMember = (member: TeamMember) => {
     setSelectedMember(member);
-    setEditMemberDisplayName(member.display_name || '');
-    setEditMemberProfileImage(member.profile_image_url || '');
+    setEditMemberDisplayName(member.displayName || '');
+    setEditMemberProfileImage(member.profileImageUrl || '');
     setEditMemberModalVisible(true);
   };
 
@@ -393,18 +472,24 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
     }
     
     try {
-      const updates: { display_name: string; profile_image_url?: string } = {
-        display_name: editMemberDisplayName.trim(),
+      const updates: TeamMemberProfileUpdate = {
+        displayName: editMemberDisplayName.trim(),
       };
       
       if (editMemberProfileImage.trim()) {
-        updates.profile_image_url = editMemberProfileImage.trim();
+        updates.profileImageUrl = editMemberProfileImage.trim();
       }
       
       const result = await stackAuthClient.updateTeamMemberProfile(teamId, updates);
       
+      if (!result.success && result.error.kind === 'queued') {
+        setEditMemberModalVisible(false);
+        setSelectedMember(null);
+        Alert.alert('Saved Offline', describeError(result.error));
+        return;
+      }
       if (!result.success) {
-        Alert.alert('Error', result.error || 'Failed to update member profile');
+        Alert.alert('Error', getTeamErrorMessage(result.error, 'update this profile'));
         return;
       }
        
@@ -413,51 +498,53 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
        setEditMemberDisplayName('');
        setEditMemberProfileImage('');
        Alert.alert('Success', 'Member profile updated successfully');
-      // Refresh members list with emails
-      const membersData = await stackAuthClient.getTeamMembers(teamId);
-      if (membersData.success) {
-        // Check admin permissions again
-        const permissionsResult = await stackAuthClient.getTeamPermissions(teamId, 'me');
-        let isAdmin = false;
-        
-        if (permissionsResult.success) {
-          const adminPermissions = ['$update_team', '$delete_team', '$remove_members', '$manage_api_keys', 'team_admin'];
-           isAdmin = permissionsResult.permissions?.some(permission => 
-             adminPermissions.includes(permission.id)
-           ) || false;
-        }
-        
-        // Only show emails if user is admin
-        if (isAdmin) {
-          // For admin users, fetch actual email addresses using server API
-          const profilesResult = await stackAuthClient.getTeamMemberProfiles(teamId);
-          if (profilesResult.success && profilesResult.profiles) {
-            const membersWithEmails = (membersData.members || []).map(member => {
-              const profile = profilesResult.profiles?.find(p => p.user_id === member.user_id);
-              return {
-                ...member,
-                email: profile?.user?.primary_email || 'Email not available'
-              };
-            });
-            setMembers(membersWithEmails);
-          } else {
-            // Fallback to placeholder if API call fails
-            const membersWithEmails = (membersData.members || []).map(member => ({
-              ...member,
-              email: 'Email visible to admins only'
-            }));
-            setMembers(membersWithEmails);
-          }
-        } else {
-          // For non-admin users, don't show emails
-          setMembers(membersData.members || []);
-        }
-      }
+      // Update just this member, keeping the pages loaded so far (and the email,
+      // which the update response doesn't include)
+      const updated = result.data;
+      setMembers(current =>
+        current.map(member => (member.userId === updated.userId ? { ...updated, email: member.email } : member))
+      );
     } catch (err) {
       Alert.alert('Error', 'Failed to update member profile');
     }
   };
 
+  const renderMember = ({ item: member }: { item: TeamMember }) => (
+    <View style={styles.memberItem}>
+      <View style={styles.memberInfo}>
+        <View style={styles.memberImageContainer}>
+          {member.profileImageUrl ? (
+            <Image source={{ uri: member.profileImageUrl }} style={styles.memberImage} />
+          ) : (
+            <View style={styles.memberImagePlaceholder}>
+              <Text style={styles.memberImagePlaceholderText}>
+                {member.displayName?.charAt(0).toUpperCase() || 'U'}
+              </Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.memberDetails}>
+          <Text style={styles.memberName}>{member.displayName}</Text>
+          {member.email && <Text style={styles.memberEmail}>{member.email}</Text>}
+        </View>
+      </View>
+      <View style={{ flexDirection: 'row' }}>
+        <TouchableOpacity
+          onPress={() => handleEditMember(member)}
+          style={styles.editButton}
+        >
+          <Ionicons name="create-outline" size={20} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => handleRemoveMember(member.userId, member.displayName || 'this member')}
+          style={styles.removeButton}
+        >
+          <Ionicons name="person-remove-outline" size={20} color="#FF3B30" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -485,7 +572,7 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
         </View>
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity onPress={loadTeamData} style={styles.retryButton}>
+          <TouchableOpacity onPress={() => loadTeamData()} style={styles.retryButton}>
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
@@ -500,114 +587,100 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
           <Ionicons name="arrow-back" size={24} color="#007AFF" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Team Profile</Text>
-        <TouchableOpacity onPress={() => setShowEditModal(true)} style={styles.editButton}>
+        <TouchableOpacity onPress={openEditModal} style={styles.editButton}>
           <Ionicons name="create-outline" size={24} color="#007AFF" />
         </TouchableOpacity>
       </View>
 
-      <ScrollView style={styles.content}>
-        {/* Team Header */}
-        <View style={styles.teamHeader}>
-          <View style={styles.teamImageContainer}>
-            {team?.profile_image_url ? (
-              <Image source={{ uri: team.profile_image_url }} style={styles.teamImage} />
-            ) : (
-              <View style={styles.teamImagePlaceholder}>
-                <Text style={styles.teamImagePlaceholderText}>
-                  {team?.display_name?.charAt(0).toUpperCase() || 'T'}
-                </Text>
+      <FlatList
+        style={styles.content}
+        data={members}
+        keyExtractor={member => member.userId}
+        renderItem={renderMember}
+        onEndReached={loadMoreMembers}
+        onEndReachedThreshold={0.5}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        ListHeaderComponent={
+          <>
+            {/* Team Header */}
+            <View style={styles.teamHeader}>
+              <View style={styles.teamImageContainer}>
+                {team?.profileImageUrl ? (
+                  <Image source={{ uri: team.profileImageUrl }} style={styles.teamImage} />
+                ) : (
+                  <View style={styles.teamImagePlaceholder}>
+                    <Text style={styles.teamImagePlaceholderText}>
+                      {team?.displayName?.charAt(0).toUpperCase() || 'T'}
+                    </Text>
+                  </View>
+                )}
               </View>
-            )}
-          </View>
-          <Text style={styles.teamName}>{team?.display_name}</Text>
-        </View>
+              <Text style={styles.teamName}>{team?.displayName}</Text>
+            </View>
 
-        {/* Team Actions */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Team Actions</Text>
-          <TouchableOpacity onPress={() => setShowInviteModal(true)} style={styles.actionButton}>
-            <Ionicons name="person-add-outline" size={20} color="#007AFF" />
-            <Text style={styles.actionButtonText}>Invite Member</Text>
-          </TouchableOpacity>
-          <TouchableOpacity onPress={handleDeleteTeam} style={[styles.actionButton, styles.dangerButton]}>
-            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
-            <Text style={[styles.actionButtonText, styles.dangerText]}>Delete Team</Text>
-          </TouchableOpacity>
-        </View>
+            {/* Team Actions */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Team Actions</Text>
+              <TouchableOpacity onPress={() => setShowInviteModal(true)} style={styles.actionButton}>
+                <Ionicons name="person-add-outline" size={20} color="#007AFF" />
+                <Text style={styles.actionButtonText}>Invite Member</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleDeleteTeam} style={[styles.actionButton, styles.dangerButton]}>
+                <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                <Text style={[styles.actionButtonText, styles.dangerText]}>Delete Team</Text>
+              </TouchableOpacity>
+            </View>
 
-        {/* Team Members */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Members ({members.length})</Text>
-          {members.map((member) => (
-            <View key={member.user_id} style={styles.memberItem}>
-              <View style={styles.memberInfo}>
-                <View style={styles.memberImageContainer}>
-                  {member.profile_image_url ? (
-                    <Image source={{ uri: member.profile_image_url }} style={styles.memberImage} />
-                  ) : (
-                    <View style={styles.memberImagePlaceholder}>
-                      <Text style={styles.memberImagePlaceholderText}>
-                        {member.display_name?.charAt(0).toUpperCase() || 'U'}
-                      </Text>
-                    </View>
-                  )}
-                </View>
-                <View style={styles.memberDetails}>
-                  <Text style={styles.memberName}>{member.display_name}</Text>
-                  {member.email && <Text style={styles.memberEmail}>{member.email}</Text>}
-                  {member.role && <Text style={styles.memberRole}>{member.role}</Text>}
-                </View>
-              </View>
-              <View style={{ flexDirection: 'row' }}>
-                <TouchableOpacity
-                  onPress={() => handleEditMember(member)}
-                  style={styles.editButton}
-                >
-                  <Ionicons name="create-outline" size={20} color="#007AFF" />
-                </TouchableOpacity>
-                <TouchableOpacity
-                   onPress={() => handleRemoveMember(member.user_id, member.display_name)}
-                   style={styles.removeButton}
-                 >
-                  <Ionicons name="person-remove-outline" size={20} color="#FF3B30" />
-                </TouchableOpacity>
-              </View>
+
+            {/* Team Members */}
+            <View style={[styles.section, styles.membersHeader]}>
+              <Text style={styles.sectionTitle}>
+                Members ({members.length}{membersCursor ? '+' : ''})
+              </Text>
+            </View>
+          </>
+        }
+        ListFooterComponent={
+          <>
+            <View style={styles.membersFooter}>
+              {loadingMoreMembers && <ActivityIndicator size="small" color="#007AFF" />}
             </View>
-          ))}
-        </View>
 
-        {/* Team Invitations */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Pending Invitations ({invitations.length})</Text>
-          {invitations.map((invitation) => (
-            <View key={invitation.id} style={styles.invitationItem}>
-              <View style={styles.invitationInfo}>
-                <Text style={styles.invitationEmail}>{invitation.recipient_email}</Text>
-                <Text style={styles.invitationDate}>
-                  Expires {new Date(invitation.expires_at_millis).toLocaleDateString()}
-                </Text>
-              </View>
-              <View style={styles.invitationActions}>
-                <TouchableOpacity
-                  onPress={() => handleResendInvitation(invitation.recipient_email)}
-                  style={styles.resendInvitationButton}
-                >
-                  <Ionicons name="refresh-outline" size={20} color="#007AFF" />
-                </TouchableOpacity>
-                <TouchableOpacity
-                  onPress={() => handleDeleteInvitation(invitation.id)}
-                  style={styles.deleteInvitationButton}
-                >
-                  <Ionicons name="close-outline" size={20} color="#FF3B30" />
-                </TouchableOpacity>
-              </View>
+            {/* Team Invitations */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Pending Invitations ({invitations.length})</Text>
+              {invitations.map((invitation) => (
+                <View key={invitation.id} style={styles.invitationItem}>
+                  <View style={styles.invitationInfo}>
+                    <Text style={styles.invitationEmail}>{invitation.recipientEmail}</Text>
+                    <Text style={styles.invitationDate}>
+                      Expires {new Date(invitation.expiresAtMillis).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  <View style={styles.invitationActions}>
+                    <TouchableOpacity
+                      onPress={() => invitation.recipientEmail && handleResendInvitation(invitation.recipientEmail)}
+                      style={styles.resendInvitationButton}
+                    >
+                      <Ionicons name="refresh-outline" size={20} color="#007AFF" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleDeleteInvitation(invitation.id)}
+                      style={styles.deleteInvitationButton}
+                    >
+                      <Ionicons name="close-outline" size={20} color="#FF3B30" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+              {invitations.length === 0 && (
+                <Text style={styles.emptyText}>No pending invitations</Text>
+              )}
             </View>
-          ))}
-          {invitations.length === 0 && (
-            <Text style={styles.emptyText}>No pending invitations</Text>
-          )}
-        </View>
-      </ScrollView>
+          </>
+        }
+      />
 
       {/* Invite Modal */}
       <Modal visible={showInviteModal} animationType="slide" transparent>
@@ -661,8 +734,8 @@ export const TeamProfile: React.FC<TeamProfileProps> = ({ teamId, onBack }) => {
               <TouchableOpacity
                 onPress={() => {
                   setShowEditModal(false);
-                  setEditTeamName(team?.display_name || '');
-                  setEditTeamImage(team?.profile_image_url || '');
+                  setEditTeamName(team?.displayName || '');
+                  setEditTeamImage(team?.profileImageUrl || '');
                 }}
                 style={[styles.modalButton, styles.cancelButton]}
               >
@@ -884,7 +957,17 @@ const styles = StyleSheet.create({
   dangerText: {
     color: '#FF3B30',
   },
+  membersHeader: {
+    marginBottom: 0,
+    paddingBottom: 0,
+  },
+  membersFooter: {
+    backgroundColor: '#fff',
+    marginBottom: 20,
+    paddingVertical: 8,
+  },
   memberItem: {
+    backgroundColor: '#fff',
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
@@ -932,11 +1015,6 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
-  memberRole: {
-    fontSize: 12,
-    color: '#007AFF',
-    marginTop: 2,
-  },
   editButton: {
     padding: 8,
     marginRight: 8,
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -14,40 +14,118 @@ import {
 } from 'react-native';
 
 import { useAuth } from '../contexts/AuthContext';
-import { stackAuthClient } from '../lib/stack-auth';
+import { Account, AuthSession, describeError, Team } from '../lib/stack-auth';
+import { EmailVerificationBanner } from './EmailVerificationBanner';
 import { TeamProfile } from './TeamProfile';
 
 const { width } = Dimensions.get('window');
 
+const describeSessionLocation = (session: AuthSession) => {
+  const from = session.lastUsedFrom;
+  if (!from) return 'Unknown location';
+  const place = [from.cityName, from.regionCode, from.countryCode].filter(Boolean).join(', ');
+  return place ? `${place} (${from.ip})` : from.ip;
+};
+
 export const UserProfile: React.FC = () => {
-  const { user, signOut, isLoading } = useAuth();
-  const [teams, setTeams] = useState<any[]>([]);
+  const { client, user, signOut, isBusy, accounts, switchAccount, addAccount } = useAuth();
+  const [teams, setTeams] = useState<Team[]>([]);
   const [teamsLoading, setTeamsLoading] = useState(true);
   const [teamsError, setTeamsError] = useState<string | null>(null);
   const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
 
-  const fetchTeams = async () => {
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+
+  const teamsControllerRef = useRef<AbortController | null>(null);
+  const sessionsControllerRef = useRef<AbortController | null>(null);
+
+  const fetchTeams = useCallback(async () => {
+    teamsControllerRef.current?.abort();
+    const controller = new AbortController();
+    teamsControllerRef.current = controller;
+
     try {
-      setTeamsLoading(true);
-      const result = await stackAuthClient.getTeams();
+      // Cached teams come back immediately, so only the first load shows a spinner
+      const result = await client.getTeams({ signal: controller.signal });
+      if (controller.signal.aborted) return;
       if (result.success) {
-        setTeams(result.teams || []);
+        setTeams(result.data);
         setTeamsError(null);
       } else {
-        setTeamsError(result.error || 'Failed to load teams');
+        setTeamsError(describeError(result.error));
       }
     } catch (error) {
       setTeamsError('Error loading teams');
     } finally {
-      setTeamsLoading(false);
+      if (!controller.signal.aborted) {
+        setTeamsLoading(false);
+      }
     }
-  };
+  }, [client]);
 
   useEffect(() => {
     if (user) {
       fetchTeams();
     }
-  }, [user]);
+    return () => teamsControllerRef.current?.abort();
+  }, [user, fetchTeams]);
+
+  const fetchSessions = useCallback(async () => {
+    sessionsControllerRef.current?.abort();
+    const controller = new AbortController();
+    sessionsControllerRef.current = controller;
+
+    try {
+      const result = await client.getSessions({ signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (result.success) {
+        // This device first, then the most recently used
+        setSessions(
+          [...result.data].sort(
+            (a, b) =>
+              Number(b.isCurrent) - Number(a.isCurrent) ||
+              (b.lastUsedAtMillis ?? b.createdAtMillis) - (a.lastUsedAtMillis ?? a.createdAtMillis)
+          )
+        );
+        setSessionsError(null);
+      } else {
+        setSessionsError(describeError(result.error));
+      }
+    } catch {
+      setSessionsError('Error loading sessions');
+    } finally {
+      if (!controller.signal.aborted) {
+        setSessionsLoading(false);
+      }
+    }
+  }, [client]);
+
+  // Profile edits change `user` but not the sessions
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) {
+      fetchSessions();
+    }
+    return () => sessionsControllerRef.current?.abort();
+  }, [userId, fetchSessions]);
+
+  // Another account's teams must never show, not even while loading
+  useEffect(() => {
+    setTeams([]);
+    setTeamsLoading(true);
+    setTeamsError(null);
+    setSelectedTeamId(null);
+    setSessions([]);
+    setSessionsLoading(true);
+    setSessionsError(null);
+  }, [user?.id]);
+
+  // Picks up background revalidations and team changes made in TeamProfile
+  useEffect(() => client.onCacheUpdated(key => {
+    if (key.startsWith('teams')) fetchTeams();
+  }), [client, fetchTeams]);
 
   const handleBackFromTeam = (shouldRefresh?: boolean) => {
     setSelectedTeamId(null);
@@ -56,6 +134,51 @@ export const UserProfile: React.FC = () => {
     }
   };
 
+  const handleSwitchAccount = async (account: Account) => {
+    const result = await switchAccount(account.userId);
+    if (!result.success) {
+      Alert.alert('Could not switch account', describeError(result.error));
+    }
+  };
+
+  const revokeSession = async (session: AuthSession) => {
+    const result = await client.revokeSession(session.id);
+    if (!result.success) {
+      Alert.alert('Could not sign out device', describeError(result.error));
+    }
+    fetchSessions();
+  };
+
+  const revokeOtherSessions = async () => {
+    const result = await client.revokeOtherSessions();
+    if (!result.success) {
+      Alert.alert('Could not sign out every device', describeError(result.error));
+    }
+    fetchSessions();
+  };
+
+  const handleRevokeSession = (session: AuthSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign out the session from ${describeSessionLocation(session)}? That device will need to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: () => revokeSession(session) },
+      ]
+    );
+  };
+
+  const handleRevokeOtherSessions = () => {
+    Alert.alert(
+      'Sign Out Other Devices',
+      'Sign out every device except this one?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out All', style: 'destructive', onPress: revokeOtherSessions },
+      ]
+    );
+  };
+
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -74,7 +197,7 @@ export const UserProfile: React.FC = () => {
     );
   };
 
-  if (isLoading) {
+  if (isBusy) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#6366f1" />
@@ -102,9 +225,9 @@ export const UserProfile: React.FC = () => {
       <ScrollView style={styles.fullscreenContainer} showsVerticalScrollIndicator={false}>
         <View style={styles.header}>
         <View style={styles.avatarContainer}>
-          {user?.profile_image_url ? (
+          {user?.profileImageUrl ? (
             <Image 
-              source={{ uri: user.profile_image_url }}
+              source={{ uri: user.profileImageUrl }}
               style={styles.profileImage}
               onError={() => console.log('Profile image failed to load')}
             />
@@ -125,6 +248,8 @@ export const UserProfile: React.FC = () => {
       </View>
 
       <View style={styles.content}>
+        <EmailVerificationBanner />
+
         <View style={styles.card}>
           <Text style={styles.sectionTitle}>Account Information</Text>
           
@@ -149,12 +274,12 @@ export const UserProfile: React.FC = () => {
             </View>
           </View>
 
-          {user?.profile_image_url && (
+          {user?.profileImageUrl && (
             <View style={styles.infoRow}>
               <View style={styles.infoItem}>
                 <Text style={styles.infoLabel}>Profile Picture</Text>
                 <Text style={styles.infoValue} numberOfLines={1}>
-                  {user.profile_image_url.split('/').pop()}
+                  {user.profileImageUrl.split('/').pop()}
                 </Text>
               </View>
             </View>
@@ -181,23 +306,25 @@ export const UserProfile: React.FC = () => {
                 onPress={() => setSelectedTeamId(team.id)}
               >
                 <View style={styles.teamImageContainer}>
-                  {team.profile_image_url ? (
+                  {team.profileImageUrl ? (
                     <Image
-                      source={{ uri: team.profile_image_url }}
+                      source={{ uri: team.profileImageUrl }}
                       style={styles.teamImage}
                     />
                   ) : (
                     <View style={styles.teamImagePlaceholder}>
                       <Text style={styles.teamImagePlaceholderText}>
-                        {team.display_name?.charAt(0)?.toUpperCase() || 'T'}
+                        {team.displayName.charAt(0)?.toUpperCase() || 'T'}
                       </Text>
                     </View>
                   )}
                 </View>
                 <View style={styles.teamInfo}>
-                  <Text style={styles.teamName}>{team.display_name}</Text>
+                  <Text style={styles.teamName}>{team.displayName}</Text>
                   <Text style={styles.teamDescription}>
-                    {team.client_metadata?.description || 'No description available'}
+                    {typeof team.clientMetadata?.description === 'string' && team.clientMetadata.description
+                      ? team.clientMetadata.description
+                      : 'No description available'}
                   </Text>
                 </View>
                 <View style={[styles.teamBadge, styles.teamBadgeInactive]}>
@@ -212,6 +339,89 @@ export const UserProfile: React.FC = () => {
           )}
         </View>
 
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Devices & Sessions</Text>
+
+          {sessionsLoading ? (
+            <View style={styles.teamsLoadingContainer}>
+              <ActivityIndicator size="small" color="#84532d" />
+              <Text style={styles.loadingText}>Loading sessions...</Text>
+            </View>
+          ) : sessionsError ? (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{sessionsError}</Text>
+            </View>
+          ) : (
+            sessions.map(session => (
+              <View key={session.id} style={styles.teamItem}>
+                <View style={styles.teamInfo}>
+                  <Text style={styles.teamName}>{describeSessionLocation(session)}</Text>
+                  <Text style={styles.teamDescription}>
+                    Signed in {new Date(session.createdAtMillis).toLocaleDateString()}
+                    {session.lastUsedAtMillis ? ` · Last used ${new Date(session.lastUsedAtMillis).toLocaleString()}` : ''}
+                  </Text>
+                </View>
+                {session.isCurrent ? (
+                  <View style={styles.teamBadge}>
+                    <Text style={styles.teamBadgeText}>This device</Text>
+                  </View>
+                ) : (
+                  <TouchableOpacity style={styles.revokeButton} onPress={() => handleRevokeSession(session)}>
+                    <Text style={styles.revokeButtonText}>Sign out</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))
+          )}
+
+          {sessions.some(session => !session.isCurrent) && (
+            <TouchableOpacity style={[styles.actionButton, styles.addAccountButton]} onPress={handleRevokeOtherSessions}>
+              <Text style={styles.actionButtonText}>Sign Out All Other Devices</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Accounts</Text>
+
+          {accounts.map(account => {
+            const isActive = account.userId === user?.id;
+            return (
+              <TouchableOpacity
+                key={account.userId}
+                style={styles.teamItem}
+                disabled={isActive}
+                onPress={() => handleSwitchAccount(account)}
+              >
+                <View style={styles.teamImageContainer}>
+                  {account.profileImageUrl ? (
+                    <Image source={{ uri: account.profileImageUrl }} style={styles.teamImage} />
+                  ) : (
+                    <View style={styles.teamImagePlaceholder}>
+                      <Text style={styles.teamImagePlaceholderText}>
+                        {(account.displayName || account.email)?.charAt(0)?.toUpperCase() || '?'}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+                <View style={styles.teamInfo}>
+                  <Text style={styles.teamName}>{account.displayName || account.email?.split('@')[0] || account.userId}</Text>
+                  {account.email && <Text style={styles.teamDescription}>{account.email}</Text>}
+                </View>
+                {isActive && (
+                  <View style={styles.teamBadge}>
+                    <Text style={styles.teamBadgeText}>Active</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity style={[styles.actionButton, styles.addAccountButton]} onPress={addAccount}>
+            <Text style={styles.actionButtonText}>Add Account</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.card}>
           <Text style={styles.sectionTitle}>Account Actions</Text>
           
@@ -344,6 +554,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#475569',
   },
+  addAccountButton: {
+    marginTop: 12,
+    marginBottom: 0,
+    alignItems: 'center',
+  },
+  revokeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#dc2626',
+  },
+  revokeButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
   signOutButton: {
     borderRadius: 12,
     paddingVertical: 14,
@@ -0,0 +1,47 @@
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import React from 'react';
+import { Text } from 'react-native';
+import { AuthProvider } from '../../contexts/AuthContext';
+import { StackAuthClient } from '../../lib/stack-auth';
+import { FakeStackServer } from '../../lib/testing/fake-stack-server';
+import { createTestClient } from '../../lib/testing/test-client';
+import { ProtectedRoute } from '../ProtectedRoute';
+
+const PASSWORD = 'correct-horse';
+
+describe('LoginScreen', () => {
+  let server: FakeStackServer;
+  let client: StackAuthClient;
+
+  beforeEach(() => {
+    server = new FakeStackServer();
+    server.addUser({ email: 'alice@example.com', password: PASSWORD });
+    client = createTestClient(server);
+  });
+
+  afterEach(() => {
+    client.dispose();
+  });
+
+  const renderApp = () =>
+    render(
+      <AuthProvider client={client}>
+        <ProtectedRoute>
+          <Text>Home</Text>
+        </ProtectedRoute>
+      </AuthProvider>
+    );
+
+  it('keeps the form and shows the countdown after a throttled sign in', async () => {
+    server.failNext('auth/password/sign-in', { status: 429, headers: { 'retry-after': '30' } }, 'POST');
+    renderApp();
+
+    // The first render waits for the stored session to be looked up
+    fireEvent.changeText(await screen.findByPlaceholderText('Email address', {}, { timeout: 5000 }), 'alice@example.com');
+    fireEvent.changeText(screen.getByPlaceholderText('Password'), 'wrong-password');
+    fireEvent.press(screen.getByText('Sign In'));
+
+    expect(await screen.findByText(/Too many attempts\. Try again in \d+s/)).toBeTruthy();
+    expect(screen.getByPlaceholderText('Email address').props.value).toBe('alice@example.com');
+  });
+});
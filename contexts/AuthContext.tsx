@@ -1,25 +1,54 @@
-import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
-import { stackAuthClient, StackTokenStorage } from '../lib/stack-auth';
-
-interface User {
-  id: string;
-  email: string;
-  displayName?: string;
-  profile_image_url?: string;
-  // Add other user properties as needed
-}
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import {
+  Account,
+  AuthState,
+  createLogger,
+  emitTelemetry,
+  err,
+  isSessionExpiredError,
+  QueuedMutation,
+  Result,
+  StackAuthClient,
+  TelemetryEventData,
+  TelemetrySink,
+  User,
+} from '../lib/stack-auth';
+
+const log = createLogger('AuthContext');
 
 interface AuthContextType {
+  client: StackAuthClient;
   user: User | null;
+  // True until the stored session has been restored or found missing
   isLoading: boolean;
+  // True while a sign out or account switch started from here is running.
+  // Sign in forms track their own submission so they stay mounted, with
+  // whatever the user typed, when an attempt fails.
+  isBusy: boolean;
   isAuthenticated: boolean;
   availableOAuthProviders: string[];
-  signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string; user_id?: string }>;
-  signUp: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
-  signInWithOAuth: (provider: string) => Promise<{ success: boolean; authUrl?: string; error?: string }>;
+  isOnline: boolean;
+  // Team edits made offline that have not reached the server yet
+  pendingMutations: QueuedMutation[];
+  // Accounts signed in on this device, most recently used first
+  accounts: Account[];
+  signIn: (email: string, password: string) => Promise<Result<{ userId: string }>>;
+  signUp: (email: string, password: string) => Promise<Result<void>>;
+  // Emails a one-time sign-in code; the nonce goes back into signInWithCode
+  sendSignInCode: (email: string) => Promise<Result<{ nonce: string }>>;
+  signInWithCode: (code: string, nonce?: string) => Promise<Result<{ userId: string; isNewUser: boolean }>>;
+  sendPasswordResetEmail: (email: string) => Promise<Result<void>>;
+  // Emails the signed-in user a link to verify their primary email
+  sendVerificationEmail: () => Promise<Result<void>>;
+  signInWithOAuth: (provider: string) => Promise<Result<{ authUrl: string }>>;
   signOut: () => Promise<void>;
+  switchAccount: (userId: string) => Promise<Result<void>>;
+  // Keeps the current account signed in and shows the sign in screen
+  addAccount: () => Promise<void>;
   refreshUser: () => Promise<void>;
   checkOAuthProviders: () => Promise<void>;
+  // Records a telemetry event from a screen
+  track: (event: TelemetryEventData) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -32,175 +61,239 @@ export const useAuth = () => {
   return context;
 };
 
+// The client the surrounding AuthProvider talks to
+export const useStackAuthClient = () => useAuth().client;
+
 interface AuthProviderProps {
   children: ReactNode;
+  client: StackAuthClient;
+  // Sink for events screens record; defaults to the client's
+  telemetry?: TelemetrySink;
 }
 
-export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children, client, telemetry }) => {
+  // Session state is read from the client and follows its events, so the
+  // context can never disagree with it
+  const [authState, setAuthState] = useState<AuthState>(() => client.getAuthState());
+  // True while a sign out or account switch started from here is running
+  const [isBusy, setIsBusy] = useState(false);
   const [availableOAuthProviders, setAvailableOAuthProviders] = useState<string[]>([]);
+  const [isOnline, setIsOnline] = useState(() => client.isOnline());
+  const [pendingMutations, setPendingMutations] = useState<QueuedMutation[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   const refreshUser = async () => {
-    console.log('AuthContext: refreshUser called');
     try {
-      console.log('AuthContext: Calling stackAuthClient.getCurrentUser()');
-      const userData = await stackAuthClient.getCurrentUser();
-      console.log('AuthContext: getCurrentUser returned:', userData);
-      if (userData) {
-        console.log('AuthContext: Setting user data and authenticated state');
-        setUser(userData);
-        setIsAuthenticated(true);
+      // A changed user reaches the context through onAuthStateChanged
+      const result = await client.getCurrentUser();
+      if (result.success) {
+        log.debug('Refreshed user', { userId: result.data.id });
+      } else if (isSessionExpiredError(result.error)) {
+        log.info('Session no longer valid, clearing it', { error: result.error });
+        await client.clearSession();
       } else {
-        console.log('AuthContext: No user data returned, clearing state');
-        setUser(null);
-        setIsAuthenticated(false);
+        // Outages, refused permissions and odd answers say nothing about the session
+        log.info('Could not refresh user, keeping current state', { error: result.error });
       }
     } catch (error) {
-      console.error('AuthContext: Error refreshing user:', error);
-      setUser(null);
-      setIsAuthenticated(false);
+      log.error('Error refreshing user', { error });
     }
   };
 
   const signIn = async (email: string, password: string) => {
-    console.log('AuthContext: signIn called with email:', email);
-    setIsLoading(true);
     try {
-      console.log('AuthContext: Calling stackAuthClient.signInWithPassword');
-      const result = await stackAuthClient.signInWithPassword(email, password);
-      console.log('AuthContext: stackAuthClient.signInWithPassword response:', result);
-      if (result.success && result.user_id) {
-        console.log('AuthContext: Sign in successful, setting user from response');
-        // Fetch complete user data from API after successful sign-in
-        console.log('AuthContext: Sign in successful, fetching complete user data');
-        const completeUserData = await stackAuthClient.getCurrentUser();
-        
-        if (completeUserData) {
-          console.log('AuthContext: Setting complete user data:', completeUserData);
-          setUser(completeUserData);
-        } else {
-          // Fallback to basic user data if API call fails
-          const userData = {
-            id: result.user_id,
-            email: email,
-            displayName: email.split('@')[0],
-            profile_image_url: undefined
-          };
-          console.log('AuthContext: Setting fallback user data:', userData);
-          setUser(userData);
-        }
-        setIsAuthenticated(true);
-      } else {
-        console.log('AuthContext: Sign in failed:', result.error);
+      const result = await client.signInWithPassword(email, password);
+      if (!result.success) {
+        log.info('Sign in failed', { error: result.error });
       }
       return result;
     } catch (error) {
-      console.error('AuthContext: Sign in error caught:', error);
-      return { success: false, error: 'Sign in failed' };
-    } finally {
-      setIsLoading(false);
+      log.error('Sign in error', { error });
+      return err({ kind: 'unknown', message: 'Sign in failed' });
     }
   };
 
   const signUp = async (email: string, password: string) => {
-    console.log('AuthContext: signUp called with email:', email);
-    setIsLoading(true);
     try {
-      console.log('AuthContext: Calling stackAuthClient.signUpWithPassword');
-      const result = await stackAuthClient.signUpWithPassword(email, password);
-      console.log('AuthContext: stackAuthClient.signUpWithPassword response:', result);
-      if (result.success) {
-        console.log('AuthContext: Sign up successful, refreshing user');
-        await refreshUser();
-      } else {
-        console.log('AuthContext: Sign up failed:', result.error);
+      const result = await client.signUpWithPassword(email, password);
+      if (!result.success) {
+        log.info('Sign up failed', { error: result.error });
       }
       return result;
     } catch (error) {
-      console.error('AuthContext: Sign up error caught:', error);
-      return { success: false, error: 'Sign up failed' };
-    } finally {
-      setIsLoading(false);
+      log.error('Sign up error', { error });
+      return err({ kind: 'unknown', message: 'Sign up failed' });
+    }
+  };
+
+  const sendSignInCode = async (email: string) => {
+    try {
+      return await client.sendSignInCode(email);
+    } catch (error) {
+      log.error('Error sending sign-in code', { error });
+      return err({ kind: 'unknown', message: 'Sending the sign-in code failed' });
+    }
+  };
+
+  const signInWithCode = async (code: string, nonce?: string) => {
+    try {
+      const result = await client.signInWithCode(code, nonce);
+      if (!result.success) {
+        log.info('Sign in with code failed', { error: result.error });
+      }
+      return result;
+    } catch (error) {
+      log.error('Sign in with code error', { error });
+      return err({ kind: 'unknown', message: 'Sign in failed' });
+    }
+  };
+
+  const sendPasswordResetEmail = async (email: string) => {
+    try {
+      return await client.sendPasswordResetEmail(email);
+    } catch (error) {
+      log.error('Error sending password reset email', { error });
+      return err({ kind: 'unknown', message: 'Sending the password reset email failed' });
+    }
+  };
+
+  const sendVerificationEmail = async () => {
+    try {
+      return await client.sendVerificationEmail();
+    } catch (error) {
+      log.error('Error sending verification email', { error });
+      return err({ kind: 'unknown', message: 'Sending the verification email failed' });
     }
   };
 
   const signOut = async () => {
-    setIsLoading(true);
+    setIsBusy(true);
+    try {
+      await client.signOut();
+    } catch (error) {
+      log.error('Error signing out', { error });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const switchAccount = async (userId: string) => {
+    setIsBusy(true);
     try {
-      await stackAuthClient.signOut();
-      setUser(null);
-      setIsAuthenticated(false);
+      const result = await client.switchAccount(userId);
+      if (!result.success) {
+        log.info('Switching account failed', { error: result.error });
+      }
+      return result;
     } catch (error) {
-      console.error('Error signing out:', error);
+      log.error('Error switching account', { error });
+      return err({ kind: 'unknown', message: 'Switching account failed' });
     } finally {
-      setIsLoading(false);
+      setIsBusy(false);
+    }
+  };
+
+  const addAccount = async () => {
+    try {
+      await client.addAccount();
+    } catch (error) {
+      log.error('Error adding account', { error });
     }
   };
 
   const checkOAuthProviders = async () => {
     try {
-      const result = await stackAuthClient.getAvailableOAuthProviders();
-      if (result.success && result.providers) {
-        setAvailableOAuthProviders(result.providers);
+      const result = await client.getAvailableOAuthProviders();
+      if (result.success) {
+        setAvailableOAuthProviders(result.data);
       }
     } catch (error) {
-      console.error('Error checking OAuth providers:', error);
+      log.error('Error checking OAuth providers', { error });
     }
   };
 
   const signInWithOAuth = async (provider: string) => {
     try {
-      return await stackAuthClient.signInWithOAuth(provider);
+      return await client.signInWithOAuth(provider);
     } catch (error) {
-      console.error('Error with OAuth sign-in:', error);
-      return { success: false, error: 'OAuth sign-in failed' };
+      log.error('Error with OAuth sign-in', { error });
+      return err({ kind: 'unknown', message: 'OAuth sign-in failed' });
     }
   };
 
+  // Stable, so screens can record from effects
+  const track = useCallback(
+    (event: TelemetryEventData) => {
+      if (telemetry) {
+        emitTelemetry(telemetry, event);
+      } else {
+        client.track(event);
+      }
+    },
+    [client, telemetry]
+  );
+
   useEffect(() => {
-    console.log('AuthContext: useEffect triggered, checking for stored tokens');
-    // Check if user has stored tokens on app load
-    const checkStoredAuth = async () => {
-      try {
-        const accessToken = await StackTokenStorage.getAccessToken();
-        if (accessToken) {
-          console.log('AuthContext: Found stored access token, attempting to get user');
-          const userData = await stackAuthClient.getCurrentUser();
-          if (userData) {
-            console.log('AuthContext: Retrieved user from stored token:', userData);
-            setUser(userData);
-            setIsAuthenticated(true);
-          } else {
-            console.log('AuthContext: Could not retrieve user, clearing tokens');
-            await StackTokenStorage.clearTokens();
-          }
-        }
-      } catch (error) {
-        console.log('AuthContext: Error checking stored auth:', error);
-        await StackTokenStorage.clearTokens();
-      } finally {
-        setIsLoading(false);
+    // Picks up whatever a client passed in later already knows
+    setAuthState(client.getAuthState());
+    const unsubscribe = client.onAuthStateChanged((state, event) => {
+      log.debug('Auth state changed', { event, status: state.status });
+      setAuthState(state);
+      // Queued edits are kept per account
+      if (event === 'account_switched') {
+        client.getPendingMutations().then(setPendingMutations);
       }
-    };
-    
-    checkStoredAuth();
+    });
+    client.restoreSession();
     checkOAuthProviders();
-  }, []);
+    return unsubscribe;
+  }, [client]);
+
+  useEffect(() => {
+    setIsOnline(client.isOnline());
+    return client.onConnectivityChanged(online => {
+      setIsOnline(online);
+      // A session restored offline may not have a user yet
+      if (online && client.getAuthState().status === 'signed_in') {
+        refreshUser();
+      }
+    });
+  }, [client]);
+
+  useEffect(() => {
+    client.getPendingMutations().then(setPendingMutations);
+    return client.onPendingMutationsChanged(setPendingMutations);
+  }, [client]);
+
+  useEffect(() => {
+    client.getAccounts().then(setAccounts);
+    return client.onAccountsChanged(setAccounts);
+  }, [client]);
 
   const value: AuthContextType = {
-    user,
-    isLoading,
-    isAuthenticated,
+    client,
+    user: authState.user,
+    isLoading: authState.status === 'unknown',
+    isBusy,
+    isAuthenticated: authState.status === 'signed_in',
     availableOAuthProviders,
+    isOnline,
+    pendingMutations,
+    accounts,
     signIn,
     signUp,
+    sendSignInCode,
+    signInWithCode,
+    sendPasswordResetEmail,
+    sendVerificationEmail,
     signInWithOAuth,
     signOut,
+    switchAccount,
+    addAccount,
     refreshUser,
     checkOAuthProviders,
+    track,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
-};
\ No newline at end of file
+};
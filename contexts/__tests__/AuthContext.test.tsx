@@ -0,0 +1,59 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import React, { ReactNode } from 'react';
+import { StackAuthClient } from '../../lib/stack-auth';
+import { FakeStackServer, FakeUser } from '../../lib/testing/fake-stack-server';
+import { createTestClient } from '../../lib/testing/test-client';
+import { AuthProvider, useAuth } from '../AuthContext';
+
+const PASSWORD = 'correct-horse';
+
+describe('AuthProvider', () => {
+  let server: FakeStackServer;
+  let client: StackAuthClient;
+  let alice: FakeUser;
+
+  beforeEach(async () => {
+    server = new FakeStackServer();
+    alice = server.addUser({ email: 'alice@example.com', password: PASSWORD });
+    // Uncached, so every refresh asks the server
+    client = createTestClient(server, { cache: null });
+    await client.signInWithPassword(alice.email, PASSWORD);
+  });
+
+  afterEach(() => {
+    client.dispose();
+  });
+
+  const renderAuth = async () => {
+    const wrapper = ({ children }: { children: ReactNode }) => <AuthProvider client={client}>{children}</AuthProvider>;
+    const rendered = renderHook(useAuth, { wrapper });
+    await waitFor(() => expect(rendered.result.current.user?.id).toBe(alice.id));
+    return rendered;
+  };
+
+  describe('refreshUser', () => {
+    it.each([
+      ['a refused permission', { status: 403 }],
+      ['a malformed answer', { status: 200, body: { id: 42 } }],
+      ['an outage', { status: 503 }],
+    ])('keeps the session after %s', async (_, failure) => {
+      const { result } = await renderAuth();
+      server.failNext('users/me', failure);
+
+      await act(() => result.current.refreshUser());
+
+      expect(await client.hasStoredSession()).toBe(true);
+      expect(result.current.isAuthenticated).toBe(true);
+    });
+
+    it('clears the session the server no longer accepts', async () => {
+      const { result } = await renderAuth();
+      server.revokeSessions();
+
+      await act(() => result.current.refreshUser());
+
+      expect(await client.hasStoredSession()).toBe(false);
+      await waitFor(() => expect(result.current.isAuthenticated).toBe(false));
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import { Alert } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { describeError, hasStackErrorCode } from '../lib/stack-auth';
+
+// Resends the verification email and reports the outcome in an alert
+export function useResendVerificationEmail() {
+  const { client, sendVerificationEmail } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+
+  const resend = async () => {
+    if (isSending) return;
+    setIsSending(true);
+    try {
+      const result = await sendVerificationEmail();
+      if (result.success) {
+        Alert.alert('Check your email', 'We sent you a new verification link.');
+      } else if (hasStackErrorCode(result.error, 'EMAIL_ALREADY_VERIFIED')) {
+        // Verified on another device; the reload clears the banner
+        await client.getCurrentUser({ cache: 'reload' });
+      } else {
+        Alert.alert('Could not send verification email', describeError(result.error));
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return { isSending, resend };
+}
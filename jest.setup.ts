@@ -0,0 +1,33 @@
+import { configureLogger } from './lib/logger';
+
+// Native modules the Stack client imports. Tests inject in-memory token
+// storage, cache and connectivity, so these only need to load and behave.
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock'));
+
+// PKCE needs real randomness and SHA-256, which the native module provides in the app
+jest.mock('expo-crypto', () => {
+  const crypto = require('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    CryptoEncoding: { BASE64: 'base64', HEX: 'hex' },
+    getRandomBytes: (byteCount: number) => new Uint8Array(crypto.randomBytes(byteCount)),
+    randomUUID: () => crypto.randomUUID(),
+    digestStringAsync: async (_algorithm: string, data: string, options?: { encoding?: 'base64' | 'hex' }) =>
+      crypto.createHash('sha256').update(data).digest(options?.encoding ?? 'hex'),
+  };
+});
+
+// LoginScreen renders the native Google sign-in button
+jest.mock('@react-native-google-signin/google-signin', () => {
+  const { createElement } = require('react');
+  const { Pressable } = require('react-native');
+  const GoogleSigninButton = (props: object) => createElement(Pressable, props);
+  GoogleSigninButton.Size = { Icon: 0, Standard: 1, Wide: 2 };
+  GoogleSigninButton.Color = { Dark: 'dark', Light: 'light' };
+  return { GoogleSigninButton };
+});
+
+configureLogger({ level: 'silent' });
@@ -0,0 +1,126 @@
+import { DEFAULT_STACK_BASE_URL, StackEnv, validateStackConfig } from '../config';
+
+const envWith = (overrides: Partial<StackEnv> = {}): StackEnv => ({
+  EXPO_PUBLIC_STACK_PROJECT_ID: 'project-123',
+  EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY: 'pck_abc',
+  EXPO_PUBLIC_STACK_BASE_URL: undefined,
+  EXPO_PUBLIC_STACK_SERVER_PROXY_URL: undefined,
+  EXPO_PUBLIC_STACK_SERVER_SECRET_KEY: undefined,
+  EXPO_PUBLIC_OAUTH_REDIRECT_URI: undefined,
+  EXPO_PUBLIC_TEAM_INVITATION_BASE_URL: undefined,
+  EXPO_PUBLIC_MAGIC_LINK_URL: undefined,
+  EXPO_PUBLIC_PASSWORD_RESET_URL: undefined,
+  EXPO_PUBLIC_EMAIL_VERIFICATION_URL: undefined,
+  ...overrides,
+});
+
+describe('validateStackConfig', () => {
+  it('accepts a complete configuration', () => {
+    const result = validateStackConfig(
+      envWith({
+        EXPO_PUBLIC_STACK_BASE_URL: 'https://auth.example.com/api/v1/',
+        EXPO_PUBLIC_STACK_SERVER_PROXY_URL: 'https://app.example.com/api/stack',
+        EXPO_PUBLIC_OAUTH_REDIRECT_URI: 'myapp://oauth-callback',
+        EXPO_PUBLIC_MAGIC_LINK_URL: 'myapp://magic-link',
+      }),
+      false
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        projectId: 'project-123',
+        publishableClientKey: 'pck_abc',
+        baseUrl: 'https://auth.example.com/api/v1',
+        serverProxyUrl: 'https://app.example.com/api/stack',
+        serverSecretKey: undefined,
+        oauthRedirectUri: 'myapp://oauth-callback',
+        teamInvitationUrl: undefined,
+        magicLinkUrl: 'myapp://magic-link',
+        passwordResetUrl: undefined,
+        emailVerificationUrl: undefined,
+      },
+    });
+  });
+
+  it('falls back to the hosted Stack Auth API', () => {
+    const result = validateStackConfig(envWith(), false);
+
+    expect(result.success && result.data.baseUrl).toBe(DEFAULT_STACK_BASE_URL);
+  });
+
+  it('requires the project ID', () => {
+    const result = validateStackConfig(envWith({ EXPO_PUBLIC_STACK_PROJECT_ID: '  ' }), false);
+
+    expect(result).toEqual({
+      success: false,
+      error: [{ variable: 'EXPO_PUBLIC_STACK_PROJECT_ID', message: 'is required but not set' }],
+    });
+  });
+
+  it('requires the publishable client key', () => {
+    const result = validateStackConfig(envWith({ EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY: undefined }), false);
+
+    expect(result).toEqual({
+      success: false,
+      error: [{ variable: 'EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY', message: 'is required but not set' }],
+    });
+  });
+
+  it.each([
+    ['auth.example.com/api/v1', 'must be an http:// or https:// URL'],
+    ['https://auth.example.com', 'must end with the API version path, e.g. /api/v1'],
+  ])('rejects the base URL %s', (baseUrl, message) => {
+    const result = validateStackConfig(envWith({ EXPO_PUBLIC_STACK_BASE_URL: baseUrl }), false);
+
+    expect(!result.success && result.error).toEqual([{ variable: 'EXPO_PUBLIC_STACK_BASE_URL', message }]);
+  });
+
+  it('rejects a proxy URL that is not http(s)', () => {
+    const result = validateStackConfig(envWith({ EXPO_PUBLIC_STACK_SERVER_PROXY_URL: 'ftp://app.example.com/stack' }), false);
+
+    expect(!result.success && result.error).toEqual([
+      { variable: 'EXPO_PUBLIC_STACK_SERVER_PROXY_URL', message: 'must be an http:// or https:// URL' },
+    ]);
+  });
+
+  it('rejects values left over from .env.example', () => {
+    const result = validateStackConfig(envWith({ EXPO_PUBLIC_STACK_PROJECT_ID: 'your_project_id_here' }), false);
+
+    expect(!result.success && result.error).toEqual([
+      { variable: 'EXPO_PUBLIC_STACK_PROJECT_ID', message: 'still has the placeholder value from .env.example' },
+    ]);
+  });
+
+  it('allows the server secret key only in development', () => {
+    const env = envWith({ EXPO_PUBLIC_STACK_SERVER_SECRET_KEY: 'ssk_abc' });
+
+    expect(validateStackConfig(env, true).success).toBe(true);
+    expect(validateStackConfig(env, false)).toEqual({
+      success: false,
+      error: [
+        {
+          variable: 'EXPO_PUBLIC_STACK_SERVER_SECRET_KEY',
+          message: 'must not be set in production builds; use EXPO_PUBLIC_STACK_SERVER_PROXY_URL instead',
+        },
+      ],
+    });
+  });
+
+  it('reports every problem at once', () => {
+    const result = validateStackConfig(
+      envWith({
+        EXPO_PUBLIC_STACK_PROJECT_ID: undefined,
+        EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY: undefined,
+        EXPO_PUBLIC_STACK_BASE_URL: 'not a url',
+      }),
+      false
+    );
+
+    expect(!result.success && result.error.map(issue => issue.variable)).toEqual([
+      'EXPO_PUBLIC_STACK_PROJECT_ID',
+      'EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY',
+      'EXPO_PUBLIC_STACK_BASE_URL',
+    ]);
+  });
+});
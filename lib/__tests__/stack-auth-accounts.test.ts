@@ -0,0 +1,157 @@
+import { StackAuthClient } from '../stack-auth';
+import { FakeStackServer, FakeUser, TEAM_ADMIN_PERMISSIONS } from '../testing/fake-stack-server';
+import { createTestClient, ManualConnectivity } from '../testing/test-client';
+
+const PASSWORD = 'correct-horse';
+
+describe('StackAuthClient accounts', () => {
+  let server: FakeStackServer;
+  let client: StackAuthClient;
+  let personal: FakeUser;
+  let work: FakeUser;
+
+  beforeEach(async () => {
+    server = new FakeStackServer();
+    personal = server.addUser({ email: 'sam@example.com', password: PASSWORD, displayName: 'Sam' });
+    work = server.addUser({ email: 'sam@work.example', password: PASSWORD, displayName: 'Sam (Work)' });
+    const workTeam = server.addTeam({ id: 'team-work', displayName: 'Work' });
+    server.addMember(workTeam.id, work.id, TEAM_ADMIN_PERMISSIONS);
+    const homeTeam = server.addTeam({ id: 'team-home', displayName: 'Home' });
+    server.addMember(homeTeam.id, personal.id, TEAM_ADMIN_PERMISSIONS);
+    client = createTestClient(server);
+    await client.signInWithPassword(personal.email, PASSWORD);
+  });
+
+  afterEach(() => {
+    client.dispose();
+  });
+
+  const addWorkAccount = async () => {
+    await client.addAccount();
+    await client.signInWithPassword(work.email, PASSWORD);
+  };
+
+  it('lists every account signed in on the device', async () => {
+    await addWorkAccount();
+
+    expect((await client.getAccounts()).map(account => account.email)).toEqual(['sam@work.example', 'sam@example.com']);
+    expect(client.getAuthState().user?.id).toBe(work.id);
+  });
+
+  it('sets the active account aside while another signs in', async () => {
+    const listener = jest.fn();
+    client.onAuthStateChanged(listener);
+
+    await client.addAccount();
+
+    expect(listener).toHaveBeenCalledWith({ status: 'signed_out', user: null }, 'account_switched');
+    expect(await client.hasStoredSession()).toBe(false);
+    expect(await client.getAccounts()).toHaveLength(1);
+  });
+
+  it('switches between accounts without signing in again', async () => {
+    await addWorkAccount();
+    const listener = jest.fn();
+    client.onAuthStateChanged(listener);
+    server.requests.length = 0;
+
+    expect(await client.switchAccount(personal.id)).toEqual({ success: true, data: undefined });
+
+    expect(listener).toHaveBeenCalledWith(
+      { status: 'signed_in', user: expect.objectContaining({ id: personal.id }) },
+      'account_switched'
+    );
+    expect(server.requests.some(request => request.url.includes('sign-in'))).toBe(false);
+    const user = await client.getCurrentUser({ cache: 'reload' });
+    expect(user.success && user.data.id).toBe(personal.id);
+  });
+
+  it('refreshes a saved session that expired while it was inactive', async () => {
+    await addWorkAccount();
+    server.expireAccessTokens();
+
+    await client.switchAccount(personal.id);
+    const teams = await client.getTeams();
+
+    expect(teams.success && teams.data.map(team => team.id)).toEqual(['team-home']);
+  });
+
+  it('keeps cached team data per account', async () => {
+    const personalTeams = await client.getTeams();
+    await addWorkAccount();
+
+    const workTeams = await client.getTeams();
+    await client.switchAccount(personal.id);
+    server.requests.length = 0;
+    const cachedPersonalTeams = await client.getTeams();
+
+    expect(personalTeams.success && personalTeams.data.map(team => team.id)).toEqual(['team-home']);
+    expect(workTeams.success && workTeams.data.map(team => team.id)).toEqual(['team-work']);
+    expect(cachedPersonalTeams).toEqual(personalTeams);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('only reports cache updates of the active account', async () => {
+    await addWorkAccount();
+    const listener = jest.fn();
+    client.onCacheUpdated(listener);
+    await client.getTeams();
+    await client.switchAccount(personal.id);
+
+    await client.getTeams();
+
+    expect(listener.mock.calls).toEqual([['teams?user_id=me'], ['teams?user_id=me']]);
+  });
+
+  it('replays queued edits with the account that made them', async () => {
+    const connectivity = new ManualConnectivity();
+    client.dispose();
+    client = createTestClient(server, { connectivity });
+    await client.signInWithPassword(personal.email, PASSWORD);
+    connectivity.setOnline(false);
+    await client.updateTeam('team-home', { displayName: 'Home sweet home' });
+    await client.addAccount();
+    await client.signInWithPassword(work.email, PASSWORD);
+
+    connectivity.setOnline(true);
+    await client.replayQueuedMutations();
+    expect(await client.getPendingMutations()).toEqual([]);
+    expect(server.getTeam('team-home')?.displayName).toBe('Home');
+
+    await client.switchAccount(personal.id);
+    await client.replayQueuedMutations();
+    expect(server.getTeam('team-home')?.displayName).toBe('Home sweet home');
+  });
+
+  it('signs out of the active account only', async () => {
+    await addWorkAccount();
+
+    await client.signOut();
+
+    expect(client.getAuthState().status).toBe('signed_out');
+    expect((await client.getAccounts()).map(account => account.userId)).toEqual([personal.id]);
+    expect(await client.switchAccount(personal.id)).toEqual({ success: true, data: undefined });
+    expect(await client.switchAccount(work.id)).toEqual({
+      success: false,
+      error: { kind: 'validation', message: 'That account is not signed in on this device' },
+    });
+  });
+
+  it('drops an account whose saved session was revoked', async () => {
+    await addWorkAccount();
+    server.revokeSessions();
+
+    await client.switchAccount(personal.id);
+    const result = await client.getCurrentUser({ cache: 'reload' });
+
+    expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'ACCESS_TOKEN_EXPIRED' });
+    expect(client.getAuthState().status).toBe('signed_out');
+    expect((await client.getAccounts()).map(account => account.userId)).toEqual([work.id]);
+  });
+
+  it('replaces the session when the same account signs in again', async () => {
+    await client.signInWithPassword(personal.email, PASSWORD);
+
+    expect(await client.getAccounts()).toHaveLength(1);
+  });
+});
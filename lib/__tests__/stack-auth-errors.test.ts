@@ -0,0 +1,237 @@
+import { DEFAULT_RETRY_POLICY, StackAuthClient } from '../stack-auth';
+import { FakeStackServer, FakeUser, TEAM_ADMIN_PERMISSIONS } from '../testing/fake-stack-server';
+import { createTestClient, ManualConnectivity } from '../testing/test-client';
+
+const PASSWORD = 'correct-horse';
+
+describe('StackAuthClient errors', () => {
+  let server: FakeStackServer;
+  let client: StackAuthClient;
+  let alice: FakeUser;
+
+  beforeEach(async () => {
+    server = new FakeStackServer();
+    alice = server.addUser({ email: 'alice@example.com', password: PASSWORD });
+    client = createTestClient(server);
+    await client.signInWithPassword(alice.email, PASSWORD);
+  });
+
+  afterEach(() => {
+    client.dispose();
+  });
+
+  it.each([
+    [{ status: 429, headers: { 'retry-after': '3' } }, { kind: 'rate_limited', retryAfterMs: 3000 }],
+    [{ status: 503, message: 'Down for maintenance' }, { kind: 'server', status: 503, message: 'Down for maintenance' }],
+    [{ status: 403 }, { kind: 'forbidden' }],
+    [{ status: 400, code: 'SOME_NEW_ERROR', details: { field: 'x' } }, { kind: 'validation', code: 'SOME_NEW_ERROR', details: { field: 'x' } }],
+    [{ status: 418 }, { kind: 'unknown', status: 418 }],
+    [{ status: 200, body: { id: 42 } }, { kind: 'invalid_response', path: 'user.id' }],
+  ])('maps a %j response to %j', async (failure, expected) => {
+    server.failNext('users/me', failure);
+
+    const result = await client.getCurrentUser({ cache: 'reload' });
+
+    expect(!result.success && result.error).toMatchObject(expected);
+  });
+
+  it('reports network failures', async () => {
+    server.failNext('users/me', 'network');
+
+    const result = await client.getCurrentUser({ cache: 'reload' });
+
+    expect(result).toEqual({ success: false, error: { kind: 'network', message: 'Failed to fetch current user' } });
+  });
+
+  it('times out a request that never answers', async () => {
+    server.failNext('users/me', 'hang');
+
+    const result = await client.getCurrentUser({ timeoutMs: 20, cache: 'reload' });
+
+    expect(!result.success && result.error.kind).toBe('timeout');
+  });
+
+  it('cancels a request when its signal aborts', async () => {
+    server.failNext('users/me', 'hang');
+    const controller = new AbortController();
+
+    const pending = client.getCurrentUser({ signal: controller.signal, cache: 'reload' });
+    controller.abort();
+
+    expect(await pending).toEqual({ success: false, error: expect.objectContaining({ kind: 'aborted' }) });
+  });
+
+  describe('retries', () => {
+    const retryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1, maxDelayMs: 1 };
+
+    beforeEach(() => {
+      client.dispose();
+      client = createTestClient(server, { retryPolicy });
+      return client.signInWithPassword(alice.email, PASSWORD);
+    });
+
+    it('retries idempotent requests after a retryable status', async () => {
+      server.failNext('users/me', { status: 503 });
+      server.requests.length = 0;
+
+      const result = await client.getCurrentUser({ cache: 'reload' });
+
+      expect(result.success).toBe(true);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('does not retry mutations', async () => {
+      const team = server.addTeam({ displayName: 'Rocket' });
+      server.addMember(team.id, alice.id, TEAM_ADMIN_PERMISSIONS);
+      server.failNext(`teams/${team.id}`, { status: 503 }, 'PATCH');
+
+      const result = await client.updateTeam(team.id, { displayName: 'Rocket Labs' });
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'server', status: 503 });
+      expect(server.getTeam(team.id)?.displayName).toBe('Rocket');
+    });
+  });
+
+  describe('offline', () => {
+    let connectivity: ManualConnectivity;
+
+    beforeEach(() => {
+      client.dispose();
+      connectivity = new ManualConnectivity();
+      client = createTestClient(server, { connectivity });
+      return client.signInWithPassword(alice.email, PASSWORD);
+    });
+
+    it('fails uncached reads without sending anything', async () => {
+      connectivity.setOnline(false);
+      server.requests.length = 0;
+
+      const result = await client.getTeams();
+
+      expect(client.isOnline()).toBe(false);
+      expect(!result.success && result.error.kind).toBe('offline');
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('serves cached reads', async () => {
+      await client.getCurrentUser();
+      connectivity.setOnline(false);
+
+      const result = await client.getCurrentUser();
+
+      expect(result.success && result.data.id).toBe(alice.id);
+    });
+
+    it('notifies connectivity listeners', () => {
+      const listener = jest.fn();
+      client.onConnectivityChanged(listener);
+
+      connectivity.setOnline(false);
+      connectivity.setOnline(true);
+
+      expect(listener.mock.calls).toEqual([[false], [true]]);
+    });
+
+    describe('queued team edits', () => {
+      let teamId: string;
+
+      beforeEach(async () => {
+        teamId = server.addTeam({ displayName: 'Rocket' }).id;
+        server.addMember(teamId, alice.id, TEAM_ADMIN_PERMISSIONS);
+        await client.getTeam(teamId);
+        await client.getTeamMembers(teamId);
+        await client.getCurrentUser();
+      });
+
+      it('queues edits made offline and replays them on reconnect', async () => {
+        const pendingListener = jest.fn();
+        const replayedListener = jest.fn();
+        client.onPendingMutationsChanged(pendingListener);
+        client.onMutationReplayed(replayedListener);
+        connectivity.setOnline(false);
+
+        const result = await client.updateTeam(teamId, { displayName: 'Rocket Labs' });
+
+        expect(!result.success && result.error).toMatchObject({ kind: 'queued', mutationId: expect.any(String) });
+        expect(await client.getPendingMutations()).toEqual([
+          expect.objectContaining({ kind: 'updateTeam', teamId, baseline: { displayName: 'Rocket' } }),
+        ]);
+        expect(pendingListener).toHaveBeenCalledTimes(1);
+
+        connectivity.setOnline(true);
+        await client.replayQueuedMutations();
+
+        expect(server.getTeam(teamId)?.displayName).toBe('Rocket Labs');
+        expect(replayedListener).toHaveBeenCalledWith(expect.objectContaining({ status: 'applied' }));
+        expect(await client.getPendingMutations()).toEqual([]);
+      });
+
+      it('queues an edit whose request never reached the server', async () => {
+        server.failNext(`team-member-profiles/${teamId}/me`, 'network', 'PATCH');
+
+        const result = await client.updateTeamMemberProfile(teamId, { displayName: 'Captain' });
+
+        expect(!result.success && result.error.kind).toBe('queued');
+        await client.replayQueuedMutations();
+        expect(server.getMembership(teamId, alice.id)?.displayName).toBe('Captain');
+      });
+
+      it('drops a queued edit that conflicts with a change made elsewhere', async () => {
+        const replayedListener = jest.fn();
+        client.onMutationReplayed(replayedListener);
+        connectivity.setOnline(false);
+        await client.updateTeam(teamId, { displayName: 'Rocket Labs' });
+        server.getTeam(teamId)!.displayName = 'Renamed elsewhere';
+
+        connectivity.setOnline(true);
+        await client.replayQueuedMutations();
+
+        expect(server.getTeam(teamId)?.displayName).toBe('Renamed elsewhere');
+        expect(replayedListener).toHaveBeenCalledWith(expect.objectContaining({ status: 'conflict', fields: ['displayName'] }));
+      });
+
+      it('checks a queued profile edit against the member’s own profile only', async () => {
+        const replayedListener = jest.fn();
+        client.onMutationReplayed(replayedListener);
+        server.getMembership(teamId, alice.id)!.displayName = 'Alice';
+        await client.getOwnTeamMemberProfile(teamId);
+        connectivity.setOnline(false);
+        await client.updateTeamMemberProfile(teamId, { displayName: 'Captain' });
+        server.getMembership(teamId, alice.id)!.displayName = 'Renamed elsewhere';
+        server.requests.length = 0;
+
+        connectivity.setOnline(true);
+        await client.replayQueuedMutations();
+
+        expect(await client.getPendingMutations()).toEqual([]);
+        expect(replayedListener).toHaveBeenCalledWith(expect.objectContaining({ status: 'conflict', fields: ['displayName'] }));
+        expect(server.requests.map(request => request.url)).toEqual([`${server.baseUrl}/team-member-profiles/${teamId}/me`]);
+      });
+
+      it('reports a queued edit the server refuses', async () => {
+        const replayedListener = jest.fn();
+        client.onMutationReplayed(replayedListener);
+        connectivity.setOnline(false);
+        await client.updateTeam(teamId, { displayName: 'Rocket Labs' });
+        server.getMembership(teamId, alice.id)!.permissions = [];
+
+        connectivity.setOnline(true);
+        await client.replayQueuedMutations();
+
+        expect(replayedListener).toHaveBeenCalledWith(
+          expect.objectContaining({ status: 'failed', error: expect.objectContaining({ code: 'TEAM_PERMISSION_REQUIRED' }) })
+        );
+        expect(await client.getPendingMutations()).toEqual([]);
+      });
+
+      it('forgets queued edits with the session', async () => {
+        connectivity.setOnline(false);
+        await client.updateTeam(teamId, { displayName: 'Rocket Labs' });
+
+        await client.clearSession();
+
+        expect(await client.getPendingMutations()).toEqual([]);
+      });
+    });
+  });
+});
@@ -0,0 +1,705 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_SIGN_IN_BACKOFF_POLICY, MemoryTokenStorage, SignInThrottle, StackAuthClient } from '../stack-auth';
+import { FakeStackServer, FakeUser } from '../testing/fake-stack-server';
+import { createTestClient } from '../testing/test-client';
+
+const PASSWORD = 'correct-horse';
+
+const endpointsOf = (server: FakeStackServer) =>
+  server.requests.map(request => `${request.method} ${request.url.slice(server.baseUrl.length + 1)}`);
+
+describe('StackAuthClient sessions', () => {
+  let server: FakeStackServer;
+  let client: StackAuthClient;
+  let alice: FakeUser;
+
+  beforeEach(() => {
+    server = new FakeStackServer();
+    alice = server.addUser({ email: 'alice@example.com', password: PASSWORD, displayName: 'Alice' });
+    client = createTestClient(server);
+  });
+
+  afterEach(() => {
+    client.dispose();
+    jest.useRealTimers();
+  });
+
+  describe('password authentication', () => {
+    it('signs in and stores the session', async () => {
+      const result = await client.signInWithPassword(alice.email, PASSWORD);
+
+      expect(result).toEqual({ success: true, data: { userId: alice.id } });
+      expect(await client.hasStoredSession()).toBe(true);
+      expect(await client.isAuthenticated()).toBe(true);
+    });
+
+    it('reports a wrong password as EMAIL_PASSWORD_MISMATCH', async () => {
+      const result = await client.signInWithPassword(alice.email, 'wrong-password');
+
+      expect(result).toEqual({
+        success: false,
+        error: { kind: 'stack', code: 'EMAIL_PASSWORD_MISMATCH', status: 400, message: 'Wrong e-mail or password.' },
+      });
+      expect(await client.hasStoredSession()).toBe(false);
+    });
+
+    it('reports a sign in answer without tokens as invalid and stores no session', async () => {
+      server.failNext('auth/password/sign-in', { status: 200, body: { user_id: alice.id } }, 'POST');
+
+      const result = await client.signInWithPassword(alice.email, PASSWORD);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'invalid_response', path: 'response.access_token' });
+      expect(await client.hasStoredSession()).toBe(false);
+    });
+
+    it('signs up a new user and signs them in', async () => {
+      const result = await client.signUpWithPassword('new@example.com', 'long-enough');
+
+      expect(result).toEqual({ success: true, data: undefined });
+      const user = await client.getCurrentUser();
+      expect(user.success && user.data).toEqual({
+        id: expect.any(String),
+        email: 'new@example.com',
+        primaryEmailVerified: false,
+        displayName: 'new',
+        profileImageUrl: undefined,
+      });
+    });
+
+    it('rejects an email that is already registered', async () => {
+      const result = await client.signUpWithPassword(alice.email, 'long-enough');
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'USER_EMAIL_ALREADY_EXISTS', status: 409 });
+    });
+
+    it('passes error details through', async () => {
+      const result = await client.signUpWithPassword('new@example.com', 'short');
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'stack',
+        code: 'PASSWORD_TOO_SHORT',
+        status: 400,
+        details: { min_length: 8 },
+      });
+    });
+
+    it('signs out on the server and forgets the session', async () => {
+      await client.signInWithPassword(alice.email, PASSWORD);
+      await client.getCurrentUser();
+
+      await client.signOut();
+
+      expect(endpointsOf(server)).toContain('DELETE auth/sessions/current');
+      expect(await client.hasStoredSession()).toBe(false);
+      expect(await client.isAuthenticated()).toBe(false);
+      expect(await client.getTokenExpiry()).toBeNull();
+    });
+
+    it('forgets the session even when the server cannot be reached', async () => {
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.failNext('auth/sessions/current', 'network');
+
+      await client.signOut();
+
+      expect(await client.hasStoredSession()).toBe(false);
+    });
+
+    it('clears tokens and cached reads with clearSession', async () => {
+      await client.signInWithPassword(alice.email, PASSWORD);
+      await client.getCurrentUser();
+
+      await client.clearSession();
+
+      expect(await client.hasStoredSession()).toBe(false);
+      const user = await client.getCurrentUser();
+      expect(!user.success && user.error).toMatchObject({ kind: 'unauthorized' });
+    });
+  });
+
+  describe('sign-in throttling', () => {
+    const signInRequests = () => endpointsOf(server).filter(endpoint => endpoint === 'POST auth/password/sign-in');
+
+    it('reports a rate-limited sign in with its retry time', async () => {
+      server.failNext('auth/password/sign-in', { status: 429, headers: { 'retry-after': '30' } }, 'POST');
+
+      const result = await client.signInWithPassword(alice.email, PASSWORD);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'rate_limited', retryAfterMs: 30000 });
+      expect(await client.getSignInLockout(alice.email)).toBeGreaterThan(29000);
+    });
+
+    it('waits out the server’s rate limit before trying again', async () => {
+      server.failNext('auth/password/sign-in', { status: 429 }, 'POST');
+      await client.signInWithPassword(alice.email, PASSWORD);
+
+      const result = await client.signInWithPassword(alice.email, PASSWORD);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'rate_limited', retryAfterMs: expect.any(Number) });
+      expect(signInRequests()).toHaveLength(1);
+    });
+
+    it('locks an email out after repeated wrong passwords, without sending the next attempt', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await client.signInWithPassword(alice.email, 'wrong-password');
+      }
+
+      const result = await client.signInWithPassword(` ${alice.email.toUpperCase()}`, PASSWORD);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'rate_limited', retryAfterMs: expect.any(Number) });
+      expect(signInRequests()).toHaveLength(4);
+      expect(await client.getSignInLockout('someone-else@example.com')).toBe(0);
+    });
+
+    it('doubles the lockout with each further failure', async () => {
+      let now = 0;
+      const throttle = new SignInThrottle(null, DEFAULT_SIGN_IN_BACKOFF_POLICY, () => now);
+      const lockouts: number[] = [];
+      for (let attempt = 0; attempt < 6; attempt++) {
+        lockouts.push(await throttle.recordFailure(alice.email));
+        now += DEFAULT_SIGN_IN_BACKOFF_POLICY.maxLockoutMs;
+      }
+
+      expect(lockouts).toEqual([0, 0, 0, 5000, 10000, 20000]);
+    });
+
+    it('keeps a lockout across restarts', async () => {
+      const storageKey = `@stack_auth:${server.projectId}:sign_in_attempts`;
+      const throttle = new SignInThrottle(storageKey);
+      await throttle.recordRateLimit(alice.email, 60000);
+
+      const restarted = createTestClient(server, { signInThrottle: new SignInThrottle(storageKey) });
+
+      expect(await restarted.getSignInLockout(alice.email)).toBeGreaterThan(59000);
+      restarted.dispose();
+    });
+
+    it('forgets failures once a sign in succeeds', async () => {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await client.signInWithPassword(alice.email, 'wrong-password');
+      }
+
+      await client.signInWithPassword(alice.email, PASSWORD);
+      await client.signInWithPassword(alice.email, 'wrong-password');
+
+      expect(await client.getSignInLockout(alice.email)).toBe(0);
+    });
+  });
+
+  describe('one-time codes', () => {
+    const sendCode = async (email: string) => {
+      const sent = await client.sendSignInCode(email);
+      if (!sent.success) throw new Error('sendSignInCode failed');
+      return { nonce: sent.data.nonce, email: server.lastEmailTo(email)! };
+    };
+
+    it('signs in with the code the user types', async () => {
+      const { nonce, email } = await sendCode(alice.email);
+
+      const result = await client.signInWithCode(` ${email.code.toLowerCase()} `, nonce);
+
+      expect(result).toEqual({ success: true, data: { userId: alice.id, isNewUser: false } });
+      expect(client.getAuthState()).toMatchObject({ status: 'signed_in', user: { id: alice.id } });
+    });
+
+    it('signs in with the code from the magic link, signing up a new email', async () => {
+      const { email } = await sendCode('new@example.com');
+      expect(email.link).toMatch(/^stackauthapp:\/\/magic-link\?code=/);
+
+      const result = await client.signInWithCode(new URL(email.link).searchParams.get('code')!);
+
+      expect(result).toEqual({ success: true, data: { userId: expect.any(String), isNewUser: true } });
+    });
+
+    it('rejects a code without its nonce', async () => {
+      const { email } = await sendCode(alice.email);
+
+      const result = await client.signInWithCode(email.code);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'VERIFICATION_CODE_NOT_FOUND' });
+    });
+
+    it('accepts a code only once', async () => {
+      const { nonce, email } = await sendCode(alice.email);
+      await client.signInWithCode(email.code, nonce);
+      await client.signOut();
+
+      const result = await client.signInWithCode(email.code, nonce);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'VERIFICATION_CODE_ALREADY_USED' });
+    });
+
+    it('needs a magic link URL', async () => {
+      client.dispose();
+      client = createTestClient(server, { magicLinkUrl: undefined });
+
+      const result = await client.sendSignInCode(alice.email);
+
+      expect(!result.success && result.error.kind).toBe('validation');
+      expect(server.emails).toEqual([]);
+    });
+  });
+
+  describe('password reset', () => {
+    const sendResetCode = async (email: string) => {
+      const sent = await client.sendPasswordResetEmail(email);
+      if (!sent.success) throw new Error('sendPasswordResetEmail failed');
+      return server.lastEmailTo(email);
+    };
+
+    it('emails a reset link and sets the new password with its code', async () => {
+      const email = await sendResetCode(alice.email);
+      expect(email?.link).toBe(`stackauthapp://reset-password?code=${email?.code}`);
+
+      expect(await client.verifyPasswordResetCode(email!.code)).toEqual({ success: true, data: undefined });
+      expect(await client.resetPassword(email!.code, 'new-password')).toEqual({ success: true, data: undefined });
+
+      expect((await client.signInWithPassword(alice.email, PASSWORD)).success).toBe(false);
+      expect((await client.signInWithPassword(alice.email, 'new-password')).success).toBe(true);
+    });
+
+    it('answers the same for an email without an account', async () => {
+      const result = await client.sendPasswordResetEmail('nobody@example.com');
+
+      expect(result).toEqual({ success: true, data: undefined });
+      expect(server.emails).toEqual([]);
+    });
+
+    it('rejects an unknown or already used code', async () => {
+      const email = await sendResetCode(alice.email);
+      await client.resetPassword(email!.code, 'new-password');
+
+      const reused = await client.verifyPasswordResetCode(email!.code);
+      const unknown = await client.verifyPasswordResetCode('not-a-code');
+
+      expect(!reused.success && reused.error).toMatchObject({ kind: 'stack', code: 'VERIFICATION_CODE_ALREADY_USED' });
+      expect(!unknown.success && unknown.error).toMatchObject({ kind: 'stack', code: 'VERIFICATION_CODE_NOT_FOUND' });
+    });
+
+    it('keeps the code usable when the new password is refused', async () => {
+      const email = await sendResetCode(alice.email);
+
+      const result = await client.resetPassword(email!.code, 'short');
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'PASSWORD_TOO_SHORT' });
+      expect((await client.verifyPasswordResetCode(email!.code)).success).toBe(true);
+    });
+  });
+
+  describe('email verification', () => {
+    beforeEach(async () => {
+      await client.signInWithPassword(alice.email, PASSWORD);
+    });
+
+    const sendVerification = async () => {
+      const sent = await client.sendVerificationEmail();
+      if (!sent.success) throw new Error('sendVerificationEmail failed');
+      return server.lastEmailTo(alice.email);
+    };
+
+    it('exposes whether the primary email is verified', async () => {
+      const user = await client.getCurrentUser();
+
+      expect(user.success && user.data.primaryEmailVerified).toBe(false);
+    });
+
+    it('verifies the email with the code from the link and updates the signed-in user', async () => {
+      const listener = jest.fn();
+      client.onAuthStateChanged(listener);
+      const email = await sendVerification();
+      expect(email?.link).toBe(`stackauthapp://verify-email?code=${email?.code}`);
+
+      expect(await client.verifyEmail(email!.code)).toEqual({ success: true, data: undefined });
+
+      expect(client.getAuthState().user?.primaryEmailVerified).toBe(true);
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ user: expect.objectContaining({ primaryEmailVerified: true }) }),
+        'user_updated'
+      );
+    });
+
+    it('refuses to resend once the email is verified', async () => {
+      const email = await sendVerification();
+      await client.verifyEmail(email!.code);
+
+      const result = await client.sendVerificationEmail();
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'EMAIL_ALREADY_VERIFIED' });
+    });
+
+    it('rejects an already used code', async () => {
+      const email = await sendVerification();
+      await client.verifyEmail(email!.code);
+
+      const result = await client.verifyEmail(email!.code);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'VERIFICATION_CODE_ALREADY_USED' });
+    });
+  });
+
+  describe('auth state', () => {
+    it('starts unknown and settles as signed out without a stored session', async () => {
+      const listener = jest.fn();
+      client.onAuthStateChanged(listener);
+      expect(client.getAuthState()).toEqual({ status: 'unknown', user: null });
+
+      expect(await client.restoreSession()).toEqual({ status: 'signed_out', user: null });
+      expect(listener).toHaveBeenCalledWith({ status: 'signed_out', user: null }, 'initial_session');
+    });
+
+    it('restores a stored session with its user', async () => {
+      const storage = new MemoryTokenStorage();
+      const { accessToken, refreshToken } = server.createSession(alice.id);
+      await storage.setAccessToken(accessToken);
+      await storage.setRefreshToken(refreshToken);
+      const restored = createTestClient(server, { storage });
+
+      const state = await restored.restoreSession();
+
+      expect(state).toEqual({ status: 'signed_in', user: expect.objectContaining({ id: alice.id }) });
+      restored.dispose();
+    });
+
+    it('keeps a stored session it cannot verify offline', async () => {
+      const storage = new MemoryTokenStorage();
+      await storage.setAccessToken(server.createSession(alice.id).accessToken);
+      const restored = createTestClient(server, { storage });
+      server.failNext('users/me', 'network');
+
+      expect(await restored.restoreSession()).toEqual({ status: 'signed_in', user: null });
+      restored.dispose();
+    });
+
+    it('announces sign in with the loaded user, then sign out', async () => {
+      const listener = jest.fn();
+      client.onAuthStateChanged(listener);
+
+      await client.signInWithPassword(alice.email, PASSWORD);
+      await client.signOut();
+
+      expect(listener.mock.calls).toEqual([
+        [{ status: 'signed_in', user: expect.objectContaining({ id: alice.id, displayName: 'Alice' }) }, 'signed_in'],
+        [{ status: 'signed_out', user: null }, 'signed_out'],
+      ]);
+    });
+
+    it('announces a forced sign out as session_expired', async () => {
+      const listener = jest.fn();
+      await client.signInWithPassword(alice.email, PASSWORD);
+      client.onAuthStateChanged(listener);
+      server.revokeSessions();
+
+      await client.getTeams();
+
+      expect(listener).toHaveBeenCalledWith({ status: 'signed_out', user: null }, 'session_expired');
+    });
+
+    it('announces changes to the signed-in user', async () => {
+      const listener = jest.fn();
+      await client.signInWithPassword(alice.email, PASSWORD);
+      client.onAuthStateChanged(listener);
+      alice.displayName = 'Alice B.';
+
+      await client.getCurrentUser({ cache: 'reload' });
+      await client.getCurrentUser({ cache: 'reload' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        { status: 'signed_in', user: expect.objectContaining({ displayName: 'Alice B.' }) },
+        'user_updated'
+      );
+    });
+
+    it('stops notifying after unsubscribing', async () => {
+      const listener = jest.fn();
+      const unsubscribe = client.onAuthStateChanged(listener);
+
+      unsubscribe();
+      await client.signInWithPassword(alice.email, PASSWORD);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('reports every access token change', async () => {
+      const listener = jest.fn();
+      client.onTokenChanged(listener);
+
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.expireAccessTokens();
+      await client.getCurrentUser({ cache: 'reload' });
+      await client.signOut();
+
+      expect(listener.mock.calls.map(([change]) => change.reason)).toEqual(['signed_in', 'refreshed', 'signed_out']);
+      const [signedIn, refreshed, signedOut] = listener.mock.calls.map(([change]) => change);
+      expect(refreshed.accessToken).not.toBe(signedIn.accessToken);
+      expect(refreshed.expiresAt).toEqual(expect.any(Number));
+      expect(signedOut).toEqual({ accessToken: null, expiresAt: null, reason: 'signed_out' });
+    });
+
+    it('reports the token going away when the session expires', async () => {
+      const listener = jest.fn();
+      await client.signInWithPassword(alice.email, PASSWORD);
+      client.onTokenChanged(listener);
+      server.revokeSessions();
+
+      await client.getCurrentUser({ cache: 'reload' });
+
+      expect(listener).toHaveBeenCalledWith({ accessToken: null, expiresAt: null, reason: 'session_expired' });
+    });
+  });
+
+  describe('devices', () => {
+    let phone: { accessToken: string; refreshToken: string; sessionId: string };
+
+    beforeEach(async () => {
+      phone = server.createSession(alice.id, '203.0.113.7');
+      await client.signInWithPassword(alice.email, PASSWORD);
+    });
+
+    it('lists the user’s sessions and marks the current one', async () => {
+      const result = await client.getSessions();
+
+      expect(result.success && result.data).toEqual([
+        {
+          id: phone.sessionId,
+          createdAtMillis: expect.any(Number),
+          lastUsedAtMillis: undefined,
+          isCurrent: false,
+          isImpersonation: false,
+          lastUsedFrom: { ip: '203.0.113.7', cityName: undefined, regionCode: undefined, countryCode: undefined },
+        },
+        expect.objectContaining({ isCurrent: true, lastUsedAtMillis: expect.any(Number), lastUsedFrom: undefined }),
+      ]);
+    });
+
+    it('revokes another session', async () => {
+      expect(await client.revokeSession(phone.sessionId)).toEqual({ success: true, data: undefined });
+
+      expect(server.listSessions(alice.id)).toHaveLength(1);
+      expect(await client.isAuthenticated()).toBe(true);
+    });
+
+    it('does not revoke the current session', async () => {
+      const sessions = await client.getSessions();
+      const current = sessions.success ? sessions.data.find(session => session.isCurrent)! : undefined;
+
+      const result = await client.revokeSession(current!.id);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'CANNOT_DELETE_CURRENT_SESSION' });
+    });
+
+    it('revokes every other session', async () => {
+      server.createSession(alice.id);
+
+      expect(await client.revokeOtherSessions()).toEqual({ success: true, data: { revoked: 2 } });
+
+      expect(server.listSessions(alice.id)).toEqual([expect.objectContaining({ lastUsedAt: expect.any(Number) })]);
+      expect(await client.isAuthenticated()).toBe(true);
+    });
+
+    it('reports a session that could not be revoked after trying the rest', async () => {
+      const tablet = server.createSession(alice.id);
+      server.failNext(`auth/sessions/${phone.sessionId}`, { status: 503 }, 'DELETE');
+
+      const result = await client.revokeOtherSessions();
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'server', status: 503 });
+      expect(server.listSessions(alice.id).map(session => session.id)).not.toContain(tablet.sessionId);
+    });
+  });
+
+  describe('OAuth', () => {
+    it('lists the enabled providers', async () => {
+      expect(await client.getAvailableOAuthProviders()).toEqual({ success: true, data: ['google', 'github'] });
+    });
+
+    it('completes the authorization code flow with PKCE', async () => {
+      const started = await client.signInWithOAuth('google');
+      if (!started.success) throw new Error('signInWithOAuth failed');
+      expect(started.data.authUrl).toContain('code_challenge_method=S256');
+
+      const { code, state } = await server.authorizeOAuth(started.data.authUrl, alice.id);
+      const result = await client.handleOAuthCallback(code, state);
+
+      expect(result).toEqual({ success: true, data: undefined });
+      const user = await client.getCurrentUser();
+      expect(user.success && user.data.id).toBe(alice.id);
+      expect(await AsyncStorage.getItem(`@stack_auth:${server.projectId}:oauth_code_verifier`)).toBeNull();
+    });
+
+    it('rejects a callback whose state does not match', async () => {
+      const started = await client.signInWithOAuth('google');
+      if (!started.success) throw new Error('signInWithOAuth failed');
+      const { code } = await server.authorizeOAuth(started.data.authUrl, alice.id);
+
+      const result = await client.handleOAuthCallback(code, 'forged-state');
+
+      expect(result).toEqual({ success: false, error: { kind: 'validation', message: 'Invalid state parameter' } });
+      expect(endpointsOf(server)).not.toContain('POST auth/oauth/token');
+    });
+
+    it('fails the exchange when the code verifier does not match the challenge', async () => {
+      const started = await client.signInWithOAuth('google');
+      if (!started.success) throw new Error('signInWithOAuth failed');
+      const { code, state } = await server.authorizeOAuth(started.data.authUrl, alice.id);
+      await AsyncStorage.setItem(`@stack_auth:${server.projectId}:oauth_code_verifier`, 'not-the-verifier');
+
+      const result = await client.handleOAuthCallback(code, state);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'INVALID_AUTHORIZATION_CODE', status: 400 });
+      expect(await client.hasStoredSession()).toBe(false);
+    });
+
+    it('fails the exchange when the code was issued for another redirect URI', async () => {
+      const started = await client.signInWithOAuth('google', 'otherapp://callback');
+      if (!started.success) throw new Error('signInWithOAuth failed');
+      const { code, state } = await server.authorizeOAuth(started.data.authUrl, alice.id);
+
+      const result = await client.handleOAuthCallback(code, state);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'INVALID_AUTHORIZATION_CODE' });
+    });
+
+    it('needs a redirect URI', async () => {
+      const unconfigured = createTestClient(server, { oauthRedirectUri: '' });
+
+      const result = await unconfigured.signInWithOAuth('google');
+
+      expect(!result.success && result.error.kind).toBe('validation');
+      unconfigured.dispose();
+    });
+  });
+
+  describe('token refresh', () => {
+    it('refreshes and replays a request rejected with an expired token', async () => {
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.expireAccessTokens();
+      server.requests.length = 0;
+
+      const result = await client.getCurrentUser({ cache: 'reload' });
+
+      expect(result.success && result.data.id).toBe(alice.id);
+      expect(endpointsOf(server)).toEqual(['GET users/me', 'POST auth/sessions/current/refresh', 'GET users/me']);
+      expect(server.requests[0].headers['X-Stack-Access-Token']).not.toBe(server.requests[2].headers['X-Stack-Access-Token']);
+    });
+
+    it('shares one refresh between concurrent requests', async () => {
+      server.addMember(server.addTeam({ id: 'team-1', displayName: 'Team' }).id, alice.id);
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.expireAccessTokens();
+      server.requests.length = 0;
+
+      const results = await Promise.all([client.getCurrentUser({ cache: 'reload' }), client.getTeams(), client.getTeam('team-1')]);
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(endpointsOf(server).filter(endpoint => endpoint.includes('refresh'))).toHaveLength(1);
+    });
+
+    it('notifies token refresh listeners with the new expiry', async () => {
+      const listener = jest.fn();
+      client.onTokenRefreshed(listener);
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.expireAccessTokens();
+
+      await client.getCurrentUser({ cache: 'reload' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(await client.getTokenExpiry());
+    });
+
+    it('expires the session when the refresh token is rejected', async () => {
+      const listener = jest.fn();
+      client.onSessionExpired(listener);
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.revokeSessions();
+
+      const result = await client.getCurrentUser({ cache: 'reload' });
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'ACCESS_TOKEN_EXPIRED', status: 401 });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(await client.hasStoredSession()).toBe(false);
+    });
+
+    it('keeps the session when the refresh fails on the network', async () => {
+      const listener = jest.fn();
+      client.onSessionExpired(listener);
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.expireAccessTokens();
+      server.failNext('auth/sessions/current/refresh', 'network');
+
+      const result = await client.getCurrentUser({ cache: 'reload' });
+
+      expect(!result.success && result.error.kind).toBe('stack');
+      expect(listener).not.toHaveBeenCalled();
+      expect(await client.hasStoredSession()).toBe(true);
+    });
+
+    it('gives up on a refresh that never answers so later requests can refresh again', async () => {
+      client.dispose();
+      client = createTestClient(server, { timeoutMs: 50 });
+      await client.signInWithPassword(alice.email, PASSWORD);
+      server.expireAccessTokens();
+      server.failNext('auth/sessions/current/refresh', 'hang');
+
+      const stalled = await client.getCurrentUser({ cache: 'reload' });
+      const retried = await client.getCurrentUser({ cache: 'reload' });
+
+      expect(stalled.success).toBe(false);
+      expect(retried.success && retried.data.id).toBe(alice.id);
+      expect(await client.hasStoredSession()).toBe(true);
+    });
+
+    describe('ahead of expiry', () => {
+      beforeEach(() => {
+        // Body reads in the fetch implementation rely on the real microtask queue
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      });
+
+      it('reads the expiry from the access token', async () => {
+        const signedInAt = Date.now();
+        await client.signInWithPassword(alice.email, PASSWORD);
+
+        const expiresAt = await client.getTokenExpiry();
+
+        expect(expiresAt).toBe(Math.floor((signedInAt + server.accessTokenTtlMs) / 1000) * 1000);
+      });
+
+      it('refreshes before sending once the token is about to expire', async () => {
+        await client.signInWithPassword(alice.email, PASSWORD);
+        const expiresAt = (await client.getTokenExpiry())!;
+        // Skip past the scheduled refresh without running it
+        jest.setSystemTime(expiresAt - 30 * 1000);
+        server.requests.length = 0;
+
+        const result = await client.getCurrentUser({ cache: 'reload' });
+
+        expect(result.success).toBe(true);
+        expect(endpointsOf(server)).toEqual(['POST auth/sessions/current/refresh', 'GET users/me']);
+        expect(await client.getTokenExpiry()).toBeGreaterThan(expiresAt);
+      });
+
+      it('refreshes on a timer a minute before expiry', async () => {
+        const listener = jest.fn();
+        client.onTokenRefreshed(listener);
+        await client.signInWithPassword(alice.email, PASSWORD);
+        const expiresAt = (await client.getTokenExpiry())!;
+
+        await jest.advanceTimersByTimeAsync(expiresAt - 60 * 1000 - Date.now() - 1000);
+        expect(listener).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(listener).toHaveBeenCalledTimes(1);
+      });
+
+      it('stops the refresh timer on dispose', async () => {
+        const listener = jest.fn();
+        client.onTokenRefreshed(listener);
+        await client.signInWithPassword(alice.email, PASSWORD);
+
+        client.dispose();
+        await jest.advanceTimersByTimeAsync(server.accessTokenTtlMs);
+
+        expect(listener).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,439 @@
+import { StackAuthClient, StackAuthRequestError } from '../stack-auth';
+import { FakeStackServer, FakeTeam, FakeUser, TEAM_ADMIN_PERMISSIONS } from '../testing/fake-stack-server';
+import { createTestClient, TEST_TEAM_INVITATION_URL } from '../testing/test-client';
+import { TransportRequest } from '../transport';
+
+const PASSWORD = 'correct-horse';
+
+const collect = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+  const collected: T[] = [];
+  for await (const item of items) collected.push(item);
+  return collected;
+};
+
+describe('StackAuthClient teams', () => {
+  let server: FakeStackServer;
+  let client: StackAuthClient;
+  let alice: FakeUser;
+  let bob: FakeUser;
+  let team: FakeTeam;
+
+  const signIn = (user: FakeUser) => client.signInWithPassword(user.email, PASSWORD);
+
+  beforeEach(async () => {
+    server = new FakeStackServer();
+    alice = server.addUser({ email: 'alice@example.com', password: PASSWORD, displayName: 'Alice' });
+    bob = server.addUser({ email: 'bob@example.com', password: PASSWORD });
+    team = server.addTeam({ displayName: 'Rocket', clientMetadata: { color: 'red' } });
+    server.addMember(team.id, alice.id, TEAM_ADMIN_PERMISSIONS);
+    server.addMember(team.id, bob.id);
+    client = createTestClient(server);
+    await signIn(alice);
+  });
+
+  afterEach(() => {
+    client.dispose();
+  });
+
+  describe('reads', () => {
+    it('returns the current user', async () => {
+      expect(await client.getCurrentUser()).toEqual({
+        success: true,
+        data: {
+          id: alice.id,
+          email: 'alice@example.com',
+          primaryEmailVerified: false,
+          displayName: 'Alice',
+          profileImageUrl: undefined,
+        },
+      });
+    });
+
+    it('returns a user that shares a team', async () => {
+      const result = await client.getUserById(bob.id);
+
+      expect(result.success && result.data).toMatchObject({ id: bob.id, email: 'bob@example.com', displayName: 'bob' });
+    });
+
+    it('does not return users outside the signed-in user’s teams', async () => {
+      const stranger = server.addUser({ email: 'carol@example.com' });
+
+      const result = await client.getUserById(stranger.id);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'USER_NOT_FOUND', status: 404 });
+    });
+
+    it('lists the user’s teams', async () => {
+      server.addTeam({ displayName: 'Not mine' });
+
+      expect(await client.getTeams()).toEqual({
+        success: true,
+        data: [{ id: team.id, displayName: 'Rocket', profileImageUrl: undefined, clientMetadata: { color: 'red' } }],
+      });
+    });
+
+    it('returns a single team', async () => {
+      const result = await client.getTeam(team.id);
+
+      expect(result.success && result.data.displayName).toBe('Rocket');
+    });
+
+    it('reports a team the user cannot see as TEAM_NOT_FOUND', async () => {
+      const other = server.addTeam({ displayName: 'Not mine' });
+
+      const result = await client.getTeam(other.id);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'stack', code: 'TEAM_NOT_FOUND', status: 404 });
+    });
+
+    it('lists team members without emails', async () => {
+      const result = await client.getTeamMembers(team.id);
+
+      expect(result.success && result.data).toEqual([
+        { userId: alice.id, teamId: team.id, displayName: undefined, profileImageUrl: undefined, email: undefined },
+        { userId: bob.id, teamId: team.id, displayName: undefined, profileImageUrl: undefined, email: undefined },
+      ]);
+    });
+
+    it('lists the user’s permissions in a team', async () => {
+      const result = await client.getTeamPermissions(team.id);
+
+      expect(result.success && result.data.map(permission => permission.id)).toEqual(TEAM_ADMIN_PERMISSIONS);
+    });
+  });
+
+  describe('pagination', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 3; i++) {
+        server.addMember(team.id, server.addUser({ email: `member${i}@example.com` }).id);
+      }
+      server.pageSize = 2;
+    });
+
+    it('returns one page with the cursor of the next', async () => {
+      const first = await client.getTeamMembersPage(team.id, { limit: 3 });
+      if (!first.success) throw new Error('getTeamMembersPage failed');
+      expect(first.data.items.map(member => member.userId)).toEqual([alice.id, bob.id, expect.any(String)]);
+      expect(first.data.nextCursor).toEqual(expect.any(String));
+
+      const last = await client.getTeamMembersPage(team.id, { cursor: first.data.nextCursor!, limit: 3 });
+
+      expect(last.success && last.data).toEqual({ items: [expect.any(Object), expect.any(Object)], nextCursor: null });
+    });
+
+    it('reads every page for the full list', async () => {
+      server.requests.length = 0;
+
+      const result = await client.getTeamMembers(team.id);
+
+      expect(result.success && result.data).toHaveLength(5);
+      expect(server.requests).toHaveLength(3);
+    });
+
+    it('iterates over every member a page at a time', async () => {
+      const userIds: string[] = [];
+      for await (const member of client.listAllTeamMembers(team.id)) {
+        userIds.push(member.userId);
+      }
+
+      expect(userIds).toHaveLength(5);
+      expect(new Set(userIds).size).toBe(5);
+    });
+
+    it('throws from the iterator when a page fails', async () => {
+      const iterate = async () => {
+        for await (const member of client.listAllTeamMembers(team.id)) {
+          if (member.userId === alice.id) server.failNext('team-member-profiles', { status: 503 });
+        }
+      };
+
+      const error = await iterate().catch(caught => caught);
+
+      expect(error).toBeInstanceOf(StackAuthRequestError);
+      expect(error.error).toMatchObject({ kind: 'server', status: 503 });
+    });
+
+    it('pages through the user’s teams', async () => {
+      const rest = [server.addTeam({ displayName: 'Second' }), server.addTeam({ displayName: 'Third' })];
+      rest.forEach(other => server.addMember(other.id, alice.id));
+
+      const first = await client.getTeamsPage();
+      if (!first.success) throw new Error('getTeamsPage failed');
+      const last = await client.getTeamsPage({ cursor: first.data.nextCursor! });
+      server.requests.length = 0;
+      const teams = await collect(client.listAllTeams());
+
+      expect(first.data.items.map(item => item.id)).toEqual([team.id, rest[0].id]);
+      expect(last.success && last.data).toEqual({ items: [expect.objectContaining({ id: rest[1].id })], nextCursor: null });
+      expect(teams.map(item => item.id)).toEqual([team.id, ...rest.map(other => other.id)]);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('pages through a team’s invitations', async () => {
+      for (const email of ['dave@example.com', 'erin@example.com', 'frank@example.com']) {
+        await client.sendTeamInvitation(team.id, email);
+      }
+
+      const first = await client.getTeamInvitationsPage(team.id);
+      if (!first.success) throw new Error('getTeamInvitationsPage failed');
+      const last = await client.getTeamInvitationsPage(team.id, { cursor: first.data.nextCursor! });
+      server.requests.length = 0;
+      const invitations = await collect(client.listAllTeamInvitations(team.id));
+
+      expect(first.data.items.map(item => item.recipientEmail)).toEqual(['dave@example.com', 'erin@example.com']);
+      expect(last.success && last.data).toEqual({
+        items: [expect.objectContaining({ recipientEmail: 'frank@example.com' })],
+        nextCursor: null,
+      });
+      expect(invitations.map(item => item.recipientEmail)).toEqual(['dave@example.com', 'erin@example.com', 'frank@example.com']);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('pages through member profiles with server access', async () => {
+      const serverClient = createTestClient(server, { serverSecretKey: server.secretServerKey });
+
+      const first = await serverClient.getTeamMemberProfilesPage(team.id, { limit: 3 });
+      if (!first.success) throw new Error('getTeamMemberProfilesPage failed');
+      const last = await serverClient.getTeamMemberProfilesPage(team.id, { cursor: first.data.nextCursor!, limit: 3 });
+      server.requests.length = 0;
+      const profiles = await collect(serverClient.listAllTeamMemberProfiles(team.id));
+      serverClient.dispose();
+
+      expect(first.data.items.map(member => member.email)).toEqual(['alice@example.com', 'bob@example.com', 'member1@example.com']);
+      expect(last.success && last.data.nextCursor).toBeNull();
+      expect(last.success && last.data.items.map(member => member.email)).toEqual(['member2@example.com', 'member3@example.com']);
+      expect(profiles.map(member => member.email)).toEqual([
+        'alice@example.com',
+        'bob@example.com',
+        'member1@example.com',
+        'member2@example.com',
+        'member3@example.com',
+      ]);
+      expect(server.requests).toHaveLength(3);
+    });
+  });
+
+  describe('server access', () => {
+    it('includes member emails when the secret key is configured', async () => {
+      const serverClient = createTestClient(server, { serverSecretKey: server.secretServerKey });
+
+      const result = await serverClient.getTeamMemberProfiles(team.id);
+
+      expect(result.success && result.data.map(member => member.email)).toEqual(['alice@example.com', 'bob@example.com']);
+      expect(server.requests[server.requests.length - 1].headers).toMatchObject({
+        'X-Stack-Access-Type': 'server',
+        'X-Stack-Secret-Server-Key': server.secretServerKey,
+      });
+      serverClient.dispose();
+    });
+
+    it('reports a wrong secret key', async () => {
+      const serverClient = createTestClient(server, { serverSecretKey: 'ssk_wrong' });
+
+      const result = await serverClient.getTeamMemberProfiles(team.id);
+
+      expect(!result.success && result.error).toMatchObject({ kind: 'unauthorized', code: 'INVALID_SECRET_SERVER_KEY' });
+      serverClient.dispose();
+    });
+
+    it('refuses without a proxy or secret key', async () => {
+      const result = await client.getTeamMemberProfiles(team.id);
+
+      expect(result).toEqual({ success: false, error: { kind: 'forbidden', message: 'Server access is not configured' } });
+    });
+
+    it('sends server calls to the proxy with the user’s token and never a secret key', async () => {
+      const proxyUrl = 'https://app.test/api/stack';
+      const sent: TransportRequest[] = [];
+      // Stands in for the proxy, which adds the secret key on the server side
+      const proxyClient = createTestClient(server, {
+        serverProxyUrl: proxyUrl,
+        transport: {
+          send: request => {
+            sent.push(request);
+            if (!request.url.startsWith(proxyUrl)) return server.send(request);
+            return server.send({
+              ...request,
+              url: server.baseUrl + request.url.slice(proxyUrl.length),
+              headers: { ...request.headers, 'X-Stack-Access-Type': 'server', 'X-Stack-Secret-Server-Key': server.secretServerKey },
+            });
+          },
+        },
+      });
+      await proxyClient.signInWithPassword(alice.email, PASSWORD);
+      sent.length = 0;
+
+      const result = await proxyClient.getTeamMemberProfiles(team.id);
+      proxyClient.dispose();
+
+      expect(result.success && result.data.map(member => member.email)).toEqual(['alice@example.com', 'bob@example.com']);
+      expect(sent.map(request => request.url)).toEqual([`${proxyUrl}/team-member-profiles?team_id=${team.id}`]);
+      expect(sent[0].headers).toMatchObject({ 'X-Stack-Access-Type': 'client', 'X-Stack-Access-Token': expect.any(String) });
+      expect(sent[0].headers).not.toHaveProperty('X-Stack-Secret-Server-Key');
+    });
+  });
+
+  describe('mutations', () => {
+    it('updates a team', async () => {
+      const result = await client.updateTeam(team.id, { displayName: 'Rocket Labs', clientMetadata: { color: 'blue' } });
+
+      expect(result.success && result.data).toMatchObject({ displayName: 'Rocket Labs', clientMetadata: { color: 'blue' } });
+      expect(server.getTeam(team.id)?.displayName).toBe('Rocket Labs');
+    });
+
+    it('reports a missing permission as TEAM_PERMISSION_REQUIRED', async () => {
+      await client.signOut();
+      await signIn(bob);
+
+      const result = await client.updateTeam(team.id, { displayName: 'Mine now' });
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          kind: 'stack',
+          code: 'TEAM_PERMISSION_REQUIRED',
+          status: 403,
+          message: `User does not have permission $update_team in team ${team.id}.`,
+          details: { team_id: team.id, permission_id: '$update_team' },
+        },
+      });
+      expect(server.getTeam(team.id)?.displayName).toBe('Rocket');
+    });
+
+    it('deletes a team', async () => {
+      expect(await client.deleteTeam(team.id)).toEqual({ success: true, data: undefined });
+      expect(server.getTeam(team.id)).toBeUndefined();
+    });
+
+    it('removes a team member', async () => {
+      expect(await client.removeTeamMember(team.id, bob.id)).toEqual({ success: true, data: undefined });
+      expect(server.getMembership(team.id, bob.id)).toBeUndefined();
+    });
+
+    it('updates the user’s own team profile', async () => {
+      const result = await client.updateTeamMemberProfile(team.id, { displayName: 'Captain Alice' });
+
+      expect(result.success && result.data).toMatchObject({ userId: alice.id, displayName: 'Captain Alice' });
+      expect(server.getMembership(team.id, alice.id)?.displayName).toBe('Captain Alice');
+    });
+  });
+
+  describe('invitations', () => {
+    it('sends, lists and deletes invitations', async () => {
+      const sent = await client.sendTeamInvitation(team.id, 'dave@example.com');
+      if (!sent.success) throw new Error('sendTeamInvitation failed');
+      expect(server.listInvitations(team.id)).toEqual([
+        expect.objectContaining({ id: sent.data.invitationId, email: 'dave@example.com', callbackUrl: TEST_TEAM_INVITATION_URL }),
+      ]);
+
+      const listed = await client.getTeamInvitations(team.id);
+      expect(listed.success && listed.data).toEqual([
+        { id: sent.data.invitationId, teamId: team.id, recipientEmail: 'dave@example.com', expiresAtMillis: expect.any(Number) },
+      ]);
+
+      expect(await client.deleteTeamInvitation(sent.data.invitationId, team.id)).toEqual({ success: true, data: undefined });
+      expect(server.listInvitations(team.id)).toEqual([]);
+    });
+
+    it('needs a callback URL', async () => {
+      const unconfigured = createTestClient(server, { teamInvitationUrl: '' });
+
+      const result = await unconfigured.sendTeamInvitation(team.id, 'dave@example.com');
+
+      expect(!result.success && result.error.kind).toBe('validation');
+      expect(server.listInvitations(team.id)).toEqual([]);
+      unconfigured.dispose();
+    });
+  });
+
+  describe('cache', () => {
+    it('serves repeated reads from the cache', async () => {
+      await client.getTeams();
+      const sent = server.requests.length;
+
+      const result = await client.getTeams();
+
+      expect(result.success).toBe(true);
+      expect(server.requests).toHaveLength(sent);
+    });
+
+    it('drops cached team reads after a mutation', async () => {
+      const listener = jest.fn();
+      client.onCacheUpdated(listener);
+      await client.getTeam(team.id);
+      await client.getTeams();
+
+      await client.updateTeam(team.id, { displayName: 'Rocket Labs' });
+
+      expect(listener).toHaveBeenCalledWith(`teams/${team.id}`);
+      expect(listener).toHaveBeenCalledWith('teams?user_id=me');
+      const result = await client.getTeam(team.id);
+      expect(result.success && result.data.displayName).toBe('Rocket Labs');
+    });
+
+    it('keeps the cached reads of a team whose id starts with the mutated one', async () => {
+      const sibling = server.addTeam({ id: `${team.id}0`, displayName: 'Sibling' });
+      server.addMember(sibling.id, alice.id, TEAM_ADMIN_PERMISSIONS);
+      await client.getTeam(sibling.id);
+      await client.getTeamMembers(sibling.id);
+      await client.getTeamPermissions(sibling.id);
+      const listener = jest.fn();
+      client.onCacheUpdated(listener);
+
+      await client.updateTeam(team.id, { displayName: 'Rocket Labs' });
+
+      expect(listener.mock.calls.map(([key]) => key)).not.toContainEqual(expect.stringContaining(sibling.id));
+    });
+
+    it('merges identical requests made while one is in flight', async () => {
+      server.requests.length = 0;
+
+      const results = await Promise.all([1, 2, 3].map(() => client.getCurrentUser({ cache: 'reload' })));
+
+      expect(server.requests).toHaveLength(1);
+      expect(results.every(result => result.success && result.data.id === alice.id)).toBe(true);
+    });
+
+    it('sends requests for different URLs or auth separately', async () => {
+      const serverClient = createTestClient(server, { serverSecretKey: server.secretServerKey });
+      await serverClient.signInWithPassword(alice.email, PASSWORD);
+      server.requests.length = 0;
+
+      await Promise.all([
+        serverClient.getTeam(team.id, { cache: 'reload' }),
+        serverClient.getTeamMembers(team.id, { cache: 'reload' }),
+        serverClient.getTeamMemberProfiles(team.id, { cache: 'reload' }),
+      ]);
+
+      expect(server.requests).toHaveLength(3);
+      serverClient.dispose();
+    });
+
+    it('sends the request again once the first has settled', async () => {
+      server.requests.length = 0;
+
+      await client.getCurrentUser({ cache: 'reload' });
+      await client.getCurrentUser({ cache: 'reload' });
+
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('lets one caller abort without cancelling the request for the others', async () => {
+      const controller = new AbortController();
+
+      const aborted = client.getCurrentUser({ cache: 'reload', signal: controller.signal });
+      const waiting = client.getCurrentUser({ cache: 'reload' });
+      controller.abort();
+
+      expect(await aborted).toEqual({ success: false, error: expect.objectContaining({ kind: 'aborted' }) });
+      expect((await waiting).success).toBe(true);
+    });
+
+    it('asks the server when checking whether the session is valid', async () => {
+      await client.getCurrentUser();
+      server.revokeSessions();
+
+      expect(await client.isAuthenticated()).toBe(false);
+    });
+  });
+});
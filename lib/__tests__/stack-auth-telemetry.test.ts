@@ -0,0 +1,127 @@
+import { MemoryTelemetrySink, StackAuthClient } from '../stack-auth';
+import { FakeStackServer, FakeUser } from '../testing/fake-stack-server';
+import { createTestClient } from '../testing/test-client';
+
+const PASSWORD = 'correct-horse';
+
+describe('StackAuthClient telemetry', () => {
+  let server: FakeStackServer;
+  let telemetry: MemoryTelemetrySink;
+  let client: StackAuthClient;
+  let alice: FakeUser;
+
+  beforeEach(() => {
+    server = new FakeStackServer();
+    alice = server.addUser({ email: 'alice@example.com', password: PASSWORD });
+    telemetry = new MemoryTelemetrySink();
+    client = createTestClient(server, { telemetry });
+  });
+
+  afterEach(() => {
+    client.dispose();
+  });
+
+  it('times each request with its status', async () => {
+    await client.signInWithPassword(alice.email, PASSWORD);
+
+    const started = telemetry.ofType('request_started');
+    const finished = telemetry.ofType('request_finished');
+    expect(started.map(event => `${event.method} ${event.endpoint}`)).toEqual(['POST auth/password/sign-in', 'GET users/me']);
+    expect(finished).toEqual([
+      expect.objectContaining({ requestId: started[0].requestId, status: 200, durationMs: expect.any(Number) }),
+      expect.objectContaining({ requestId: started[1].requestId, status: 200, durationMs: expect.any(Number) }),
+    ]);
+  });
+
+  it('reports a request that got no response', async () => {
+    server.failNext('projects/current', 'network');
+
+    await client.getAvailableOAuthProviders();
+
+    expect(telemetry.ofType('request_finished')).toEqual([
+      expect.objectContaining({ endpoint: 'projects/current', status: null, errorKind: 'network' }),
+    ]);
+  });
+
+  it('drops query strings from endpoints', async () => {
+    await client.signInWithPassword(alice.email, PASSWORD);
+    telemetry.clear();
+
+    await client.getSessions();
+
+    expect(telemetry.ofType('request_started')).toEqual([expect.objectContaining({ endpoint: 'auth/sessions' })]);
+  });
+
+  it('records sign in attempts and their outcomes without the email', async () => {
+    await client.signInWithPassword(alice.email, 'wrong-password');
+    await client.signInWithPassword(alice.email, PASSWORD);
+
+    expect(telemetry.events.filter(event => event.type.startsWith('sign_in'))).toEqual([
+      expect.objectContaining({ type: 'sign_in_attempted', method: 'password' }),
+      expect.objectContaining({
+        type: 'sign_in_completed',
+        success: false,
+        errorKind: 'stack',
+        errorCode: 'EMAIL_PASSWORD_MISMATCH',
+      }),
+      expect.objectContaining({ type: 'sign_in_attempted', method: 'password' }),
+      expect.objectContaining({ type: 'sign_in_completed', success: true }),
+    ]);
+    expect(JSON.stringify(telemetry.events)).not.toContain(alice.email);
+  });
+
+  it('records sign up outcomes', async () => {
+    await client.signUpWithPassword('new@example.com', 'short');
+
+    expect(telemetry.ofType('sign_up_completed')).toEqual([
+      expect.objectContaining({ success: false, errorCode: 'PASSWORD_TOO_SHORT' }),
+    ]);
+  });
+
+  it('follows an OAuth sign in from start to completion', async () => {
+    const started = await client.signInWithOAuth('google');
+    if (!started.success) throw new Error('signInWithOAuth failed');
+    const { code, state } = await server.authorizeOAuth(started.data.authUrl, alice.id);
+
+    await client.handleOAuthCallback(code, state);
+
+    expect(telemetry.ofType('oauth_started')).toEqual([expect.objectContaining({ provider: 'google' })]);
+    expect(telemetry.ofType('oauth_completed')).toEqual([
+      expect.objectContaining({ provider: 'google', success: true, durationMs: expect.any(Number) }),
+    ]);
+    expect(JSON.stringify(telemetry.events)).not.toContain(code);
+  });
+
+  it('counts an OAuth sign in as abandoned when another sign in begins', async () => {
+    await client.signInWithOAuth('github');
+
+    await client.signInWithPassword(alice.email, PASSWORD);
+
+    expect(telemetry.ofType('oauth_abandoned')).toEqual([expect.objectContaining({ provider: 'github' })]);
+    expect(telemetry.ofType('oauth_completed')).toEqual([]);
+  });
+
+  it('records token refresh failures', async () => {
+    await client.signInWithPassword(alice.email, PASSWORD);
+    server.revokeSessions();
+
+    await client.getCurrentUser({ cache: 'reload' });
+
+    expect(telemetry.ofType('token_refresh_failed')).toEqual([expect.objectContaining({ reason: 'rejected' })]);
+  });
+
+  it('keeps working when the sink throws', async () => {
+    client.dispose();
+    client = createTestClient(server, {
+      telemetry: {
+        record() {
+          throw new Error('sink is broken');
+        },
+      },
+    });
+
+    const result = await client.signInWithPassword(alice.email, PASSWORD);
+
+    expect(result.success).toBe(true);
+  });
+});
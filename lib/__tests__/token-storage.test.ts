@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { SecureStoreTokenStorage } from '../token-storage';
+
+const mockSecureItems = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async (key: string) => mockSecureItems.get(key) ?? null),
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureItems.set(key, value);
+  }),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockSecureItems.delete(key);
+  }),
+}));
+
+describe('SecureStoreTokenStorage legacy migration', () => {
+  beforeEach(async () => {
+    mockSecureItems.clear();
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  it('moves plaintext AsyncStorage tokens into the secure store and deletes them', async () => {
+    await AsyncStorage.multiSet([
+      ['@stack_auth_access_token', 'legacy-access'],
+      ['@stack_auth_refresh_token', 'legacy-refresh'],
+    ]);
+    const storage = new SecureStoreTokenStorage('project-1');
+
+    expect(await storage.getAccessToken()).toBe('legacy-access');
+    expect(await storage.getRefreshToken()).toBe('legacy-refresh');
+    expect(Object.fromEntries(mockSecureItems)).toEqual({
+      'stack_auth.project-1.access_token': 'legacy-access',
+      'stack_auth.project-1.refresh_token': 'legacy-refresh',
+    });
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+
+  it('moves un-namespaced secure store tokens under the project and deletes them', async () => {
+    mockSecureItems.set('stack_auth.access_token', 'unscoped-access');
+    mockSecureItems.set('stack_auth.refresh_token', 'unscoped-refresh');
+    const storage = new SecureStoreTokenStorage('project-1');
+
+    expect(await storage.getRefreshToken()).toBe('unscoped-refresh');
+    expect(Object.fromEntries(mockSecureItems)).toEqual({
+      'stack_auth.project-1.access_token': 'unscoped-access',
+      'stack_auth.project-1.refresh_token': 'unscoped-refresh',
+    });
+  });
+
+  it('keeps tokens already stored under the current keys', async () => {
+    mockSecureItems.set('stack_auth.project-1.refresh_token', 'current-refresh');
+    await AsyncStorage.setItem('@stack_auth_refresh_token', 'legacy-refresh');
+    const storage = new SecureStoreTokenStorage('project-1');
+
+    expect(await storage.getRefreshToken()).toBe('current-refresh');
+    expect(await AsyncStorage.getItem('@stack_auth_refresh_token')).toBeNull();
+  });
+
+  it('does nothing when run again after migrating', async () => {
+    await AsyncStorage.setItem('@stack_auth_refresh_token', 'legacy-refresh');
+    await new SecureStoreTokenStorage('project-1').getRefreshToken();
+    jest.clearAllMocks();
+
+    const storage = new SecureStoreTokenStorage('project-1');
+
+    expect(await storage.getRefreshToken()).toBe('legacy-refresh');
+    expect(SecureStore.setItemAsync).not.toHaveBeenCalled();
+    expect(SecureStore.deleteItemAsync).not.toHaveBeenCalled();
+    expect(AsyncStorage.multiRemove).not.toHaveBeenCalled();
+  });
+
+  it('migrates only once per instance', async () => {
+    const storage = new SecureStoreTokenStorage('project-1');
+
+    await storage.getAccessToken();
+    await storage.getRefreshToken();
+
+    expect(AsyncStorage.multiGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('never migrates into the storage of an additional account', async () => {
+    await AsyncStorage.setItem('@stack_auth_refresh_token', 'legacy-refresh');
+    const storage = new SecureStoreTokenStorage('project-1.account-2', false);
+
+    expect(await storage.getRefreshToken()).toBeNull();
+    expect(await AsyncStorage.getItem('@stack_auth_refresh_token')).toBe('legacy-refresh');
+  });
+});
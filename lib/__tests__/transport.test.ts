@@ -0,0 +1,105 @@
+import { FetchTransport, joinUrl, requestIdInterceptor, TransportRequest } from '../transport';
+
+const REQUEST: TransportRequest = {
+  url: 'https://api.example.com/api/v1/users/me',
+  method: 'GET',
+  headers: { 'x-stack-project-id': 'project-1' },
+};
+
+describe('FetchTransport', () => {
+  let fetchMock: jest.Mock<Promise<Response>, Parameters<typeof fetch>>;
+  let transport: FetchTransport;
+
+  beforeEach(() => {
+    fetchMock = jest.fn<Promise<Response>, Parameters<typeof fetch>>(async () => new Response('{}', { status: 200 }));
+    transport = new FetchTransport(fetchMock);
+  });
+
+  it('sends the request through fetch', async () => {
+    const controller = new AbortController();
+
+    await transport.send({ ...REQUEST, method: 'POST', body: '{"a":1}', signal: controller.signal });
+
+    expect(fetchMock).toHaveBeenCalledWith(REQUEST.url, {
+      method: 'POST',
+      headers: REQUEST.headers,
+      body: '{"a":1}',
+      signal: controller.signal,
+    });
+  });
+
+  it('runs request interceptors in registration order, each seeing the previous one’s changes', async () => {
+    const seen: string[] = [];
+    transport.useRequestInterceptor(request => {
+      seen.push(`first ${request.url}`);
+      return { ...request, url: request.url.replace('api.example.com', 'proxy.example.com') };
+    });
+    transport.useRequestInterceptor(async request => {
+      seen.push(`second ${request.url}`);
+      return { ...request, headers: { ...request.headers, 'x-trace': 'on' } };
+    });
+
+    await transport.send(REQUEST);
+
+    expect(seen).toEqual([`first ${REQUEST.url}`, 'second https://proxy.example.com/api/v1/users/me']);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://proxy.example.com/api/v1/users/me',
+      expect.objectContaining({ headers: { 'x-stack-project-id': 'project-1', 'x-trace': 'on' } })
+    );
+  });
+
+  it('does not let interceptors change the caller’s headers', async () => {
+    transport.useRequestInterceptor(request => {
+      request.headers['x-trace'] = 'on';
+      return request;
+    });
+
+    await transport.send(REQUEST);
+
+    expect(REQUEST.headers).toEqual({ 'x-stack-project-id': 'project-1' });
+  });
+
+  it('runs response interceptors in registration order with the request that was sent', async () => {
+    const order: string[] = [];
+    transport.useRequestInterceptor(request => ({ ...request, url: `${request.url}?v=2` }));
+    transport.useResponseInterceptor((response, request) => {
+      order.push(`first ${response.status} ${request.url}`);
+      return new Response('{}', { status: 201 });
+    });
+    transport.useResponseInterceptor(response => {
+      order.push(`second ${response.status}`);
+      return response;
+    });
+
+    const response = await transport.send(REQUEST);
+
+    expect(order).toEqual([`first 200 ${REQUEST.url}?v=2`, 'second 201']);
+    expect(response.status).toBe(201);
+  });
+
+  it('stops running an interceptor once it is removed', async () => {
+    const remove = transport.useRequestInterceptor(request => ({ ...request, url: 'https://other.example.com' }));
+
+    remove();
+    await transport.send(REQUEST);
+
+    expect(fetchMock).toHaveBeenCalledWith(REQUEST.url, expect.anything());
+  });
+
+  it('tags requests with a fresh request ID', async () => {
+    transport.useRequestInterceptor(requestIdInterceptor('X-Correlation-Id'));
+
+    await transport.send(REQUEST);
+    await transport.send(REQUEST);
+
+    const ids = fetchMock.mock.calls.map(([, init]) => (init?.headers as Record<string, string>)['X-Correlation-Id']);
+    expect(ids[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(ids[1]).not.toBe(ids[0]);
+  });
+});
+
+describe('joinUrl', () => {
+  it('joins with exactly one slash', () => {
+    expect(joinUrl('https://api.example.com/api/v1/', '/users/me')).toBe('https://api.example.com/api/v1/users/me');
+  });
+});
@@ -0,0 +1,59 @@
+// AbortSignal helpers that don't rely on AbortSignal.timeout/any, which
+// Hermes does not ship.
+
+const namedError = (name: string, message: string) => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+export const createAbortError = () => namedError('AbortError', 'The request was aborted');
+
+export const createTimeoutError = (timeoutMs: number) =>
+  namedError('TimeoutError', `Request timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+// Runs `run` with a signal that aborts when `parent` aborts or after
+// `timeoutMs`. fetch polyfills reject with a generic AbortError either way,
+// so the rejection is rewritten to say which of the two happened.
+export const withTimeout = async <T>(
+  timeoutMs: number,
+  parent: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  if (parent?.aborted) throw createAbortError();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onParentAbort = () => controller.abort();
+  parent?.addEventListener('abort', onParentAbort);
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (timedOut) throw createTimeoutError(timeoutMs);
+    if (parent?.aborted) throw createAbortError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onParentAbort);
+  }
+};
+
+// Lets a caller stop waiting on a promise it does not own (such as a shared
+// token refresh) without cancelling the underlying work
+export const abortable = <T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort);
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
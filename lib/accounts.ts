@@ -0,0 +1,95 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLogger } from './logger';
+import { User } from './models';
+
+const log = createLogger('AccountList');
+
+// An account signed in on this device. Only what the account switcher shows
+// is kept here; the tokens live in secure token storage.
+export interface Account {
+  userId: string;
+  email?: string;
+  displayName?: string;
+  profileImageUrl?: string;
+  lastUsedAt: number;
+}
+
+export const accountFromUser = (user: User, lastUsedAt: number = Date.now()): Account => ({
+  userId: user.id,
+  email: user.email,
+  displayName: user.displayName,
+  profileImageUrl: user.profileImageUrl,
+  lastUsedAt,
+});
+
+// Persisted list of the accounts signed in on this device, most recently used first
+export class AccountList {
+  private accounts: Account[] = [];
+  private listeners = new Set<(accounts: Account[]) => void>();
+  private hydration: Promise<void> | null = null;
+
+  // `storageKey` null keeps the list in memory only
+  constructor(private storageKey: string | null = null) {}
+
+  ready(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.hydrate().catch(error => {
+        log.warn('Could not load accounts', { error });
+      });
+    }
+    return this.hydration;
+  }
+
+  private async hydrate(): Promise<void> {
+    if (!this.storageKey) return;
+    const json = await AsyncStorage.getItem(this.storageKey);
+    if (json) {
+      const persisted: Account[] = JSON.parse(json);
+      this.accounts = [...this.accounts, ...persisted.filter(item => !this.get(item.userId))];
+    }
+  }
+
+  list(): Account[] {
+    return [...this.accounts];
+  }
+
+  get(userId: string): Account | undefined {
+    return this.accounts.find(item => item.userId === userId);
+  }
+
+  // Adds the account or updates its details, moving it to the front
+  async upsert(account: Account): Promise<void> {
+    await this.ready();
+    const existing = this.get(account.userId);
+    if (existing && JSON.stringify(existing) === JSON.stringify(account)) return;
+    this.accounts = [account, ...this.accounts.filter(item => item.userId !== account.userId)].sort(
+      (a, b) => b.lastUsedAt - a.lastUsedAt
+    );
+    await this.changed();
+  }
+
+  async remove(userId: string): Promise<void> {
+    await this.ready();
+    if (!this.get(userId)) return;
+    this.accounts = this.accounts.filter(item => item.userId !== userId);
+    await this.changed();
+  }
+
+  subscribe(listener: (accounts: Account[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async changed(): Promise<void> {
+    const accounts = this.list();
+    this.listeners.forEach(listener => listener(accounts));
+    if (!this.storageKey) return;
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(accounts));
+    } catch (error) {
+      log.warn('Could not persist accounts', { error });
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { User } from './models';
+
+// 'unknown' until the stored session has been checked; see StackAuthClient.restoreSession
+export type AuthStatus = 'unknown' | 'signed_in' | 'signed_out';
+
+export interface AuthState {
+  status: AuthStatus;
+  // Null while signed out, and while signed in until the user could be loaded
+  user: User | null;
+}
+
+// What caused an auth state change:
+// - initial_session: the stored session was checked on startup
+// - signed_in: a password, sign-up or OAuth sign in completed
+// - signed_out: signOut() or clearSession()
+// - session_expired: the server no longer accepts the refresh token
+// - user_updated: the signed-in user's profile changed
+// - account_switched: another signed-in account became active, or the active
+//   one was set aside to add an account (status signed_out)
+export type AuthChangeEvent =
+  | 'initial_session'
+  | 'signed_in'
+  | 'signed_out'
+  | 'session_expired'
+  | 'user_updated'
+  | 'account_switched';
+
+export type AuthStateListener = (state: AuthState, event: AuthChangeEvent) => void;
+
+export interface TokenChange {
+  // Null once the session has ended
+  accessToken: string | null;
+  // Expiry in epoch ms, or null when signed out or the token carries no `exp`
+  expiresAt: number | null;
+  reason: 'signed_in' | 'refreshed' | 'signed_out' | 'session_expired' | 'switched';
+}
+
+export type TokenChangeListener = (change: TokenChange) => void;
+
+export const SIGNED_OUT: AuthState = { status: 'signed_out', user: null };
@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLogger } from './logger';
+
+const log = createLogger('ResponseCache');
+
+// A cached response body as the API returned it. Payloads are decoded again
+// on every read, so a model change between releases can never resurrect a
+// persisted entry in an outdated shape.
+export interface CacheEntry {
+  payload: unknown;
+  storedAt: number;
+}
+
+// Where the cache survives restarts. Entries hold profile data (names, team
+// member emails), not credentials, so plain AsyncStorage is acceptable.
+export interface CachePersistence {
+  load(): Promise<Record<string, CacheEntry> | null>;
+  save(entries: Record<string, CacheEntry>): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class AsyncStorageCachePersistence implements CachePersistence {
+  constructor(private storageKey: string) {}
+
+  async load(): Promise<Record<string, CacheEntry> | null> {
+    const json = await AsyncStorage.getItem(this.storageKey);
+    return json ? JSON.parse(json) : null;
+  }
+
+  save(entries: Record<string, CacheEntry>): Promise<void> {
+    return AsyncStorage.setItem(this.storageKey, JSON.stringify(entries));
+  }
+
+  clear(): Promise<void> {
+    return AsyncStorage.removeItem(this.storageKey);
+  }
+}
+
+// Entries older than this are dropped instead of being served as stale
+const DEFAULT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// In-memory response cache keyed by endpoint, optionally persisted. It only
+// stores and hands out entries; freshness (TTLs) is decided by the caller.
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private listeners = new Set<(key: string) => void>();
+  private hydration: Promise<void> | null = null;
+  // Writes are chained so an older snapshot never overwrites a newer one
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(
+    private persistence: CachePersistence | null = null,
+    private maxAgeMs: number = DEFAULT_MAX_AGE_MS,
+    private now: () => number = Date.now
+  ) {}
+
+  // Loads persisted entries once; every read waits for it
+  ready(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.hydrate().catch(error => {
+        log.warn('Could not load persisted cache', { error });
+      });
+    }
+    return this.hydration;
+  }
+
+  private async hydrate(): Promise<void> {
+    const persisted = await this.persistence?.load();
+    if (!persisted) return;
+    for (const [key, entry] of Object.entries(persisted)) {
+      // Anything written while loading is newer than the persisted copy
+      if (!this.entries.has(key) && this.now() - entry.storedAt < this.maxAgeMs) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && this.now() - entry.storedAt >= this.maxAgeMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  // Age of the entry in milliseconds, or Infinity when there is none
+  ageOf(key: string): number {
+    const entry = this.get(key);
+    return entry ? this.now() - entry.storedAt : Infinity;
+  }
+
+  set(key: string, payload: unknown): void {
+    const previous = this.entries.get(key);
+    this.entries.set(key, { payload, storedAt: this.now() });
+    this.persist();
+    // Revalidations that return identical data don't need to re-render anything
+    if (!previous || JSON.stringify(previous.payload) !== JSON.stringify(payload)) {
+      this.notify(key);
+    }
+  }
+
+  // Removes every entry whose key matches
+  invalidate(matches: (key: string) => boolean): void {
+    const removed = [...this.entries.keys()].filter(matches);
+    if (removed.length === 0) return;
+    removed.forEach(key => this.entries.delete(key));
+    this.persist();
+    removed.forEach(key => this.notify(key));
+  }
+
+  async clear(): Promise<void> {
+    // Otherwise a hydration still in flight would bring the entries back
+    await this.ready();
+    this.entries.clear();
+    this.persisting = this.persisting.then(() =>
+      this.persistence?.clear().catch(error => {
+        log.warn('Could not clear persisted cache', { error });
+      })
+    );
+    await this.persisting;
+  }
+
+  // Called with the key of every entry that changes or goes away
+  subscribe(listener: (key: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(key: string): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(key);
+      } catch (error) {
+        log.error('Cache listener failed', { error });
+      }
+    });
+  }
+
+  private persist(): void {
+    if (!this.persistence) return;
+    const persistence = this.persistence;
+    const snapshot = Object.fromEntries(this.entries);
+    this.persisting = this.persisting.then(() =>
+      persistence.save(snapshot).catch(error => {
+        log.warn('Could not persist cache', { error });
+      })
+    );
+  }
+}
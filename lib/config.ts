@@ -0,0 +1,167 @@
+// Boot-time validation of the app's Stack Auth configuration.
+//
+// The EXPO_PUBLIC_* values are compiled into the bundle, so a typo or a
+// leftover placeholder otherwise only shows up later as a confusing server
+// error. validateStackConfig checks every variable up front and reports all
+// problems at once, naming the variable each one belongs to.
+
+import { Result } from './errors';
+
+export interface StackConfig {
+  projectId: string;
+  publishableClientKey: string;
+  baseUrl: string;
+  serverProxyUrl?: string;
+  serverSecretKey?: string;
+  oauthRedirectUri?: string;
+  teamInvitationUrl?: string;
+  magicLinkUrl?: string;
+  passwordResetUrl?: string;
+  emailVerificationUrl?: string;
+}
+
+export interface ConfigIssue {
+  variable: string;
+  message: string;
+}
+
+export type StackEnv = Record<(typeof STACK_ENV_VARIABLES)[number], string | undefined>;
+
+export const STACK_ENV_VARIABLES = [
+  'EXPO_PUBLIC_STACK_PROJECT_ID',
+  'EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY',
+  'EXPO_PUBLIC_STACK_BASE_URL',
+  'EXPO_PUBLIC_STACK_SERVER_PROXY_URL',
+  'EXPO_PUBLIC_STACK_SERVER_SECRET_KEY',
+  'EXPO_PUBLIC_OAUTH_REDIRECT_URI',
+  'EXPO_PUBLIC_TEAM_INVITATION_BASE_URL',
+  'EXPO_PUBLIC_MAGIC_LINK_URL',
+  'EXPO_PUBLIC_PASSWORD_RESET_URL',
+  'EXPO_PUBLIC_EMAIL_VERIFICATION_URL',
+] as const;
+
+export const DEFAULT_STACK_BASE_URL = 'https://api.stack-auth.com/api/v1';
+
+// Expo only inlines `process.env.EXPO_PUBLIC_*` when each variable is
+// accessed by name, so they can't be read in a loop
+export const readStackEnv = (): StackEnv => ({
+  EXPO_PUBLIC_STACK_PROJECT_ID: process.env.EXPO_PUBLIC_STACK_PROJECT_ID,
+  EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY: process.env.EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY,
+  EXPO_PUBLIC_STACK_BASE_URL: process.env.EXPO_PUBLIC_STACK_BASE_URL,
+  EXPO_PUBLIC_STACK_SERVER_PROXY_URL: process.env.EXPO_PUBLIC_STACK_SERVER_PROXY_URL,
+  EXPO_PUBLIC_STACK_SERVER_SECRET_KEY: process.env.EXPO_PUBLIC_STACK_SERVER_SECRET_KEY,
+  EXPO_PUBLIC_OAUTH_REDIRECT_URI: process.env.EXPO_PUBLIC_OAUTH_REDIRECT_URI,
+  EXPO_PUBLIC_TEAM_INVITATION_BASE_URL: process.env.EXPO_PUBLIC_TEAM_INVITATION_BASE_URL,
+  EXPO_PUBLIC_MAGIC_LINK_URL: process.env.EXPO_PUBLIC_MAGIC_LINK_URL,
+  EXPO_PUBLIC_PASSWORD_RESET_URL: process.env.EXPO_PUBLIC_PASSWORD_RESET_URL,
+  EXPO_PUBLIC_EMAIL_VERIFICATION_URL: process.env.EXPO_PUBLIC_EMAIL_VERIFICATION_URL,
+});
+
+// React Native's URL polyfill doesn't implement most getters, so URLs are
+// checked by shape instead of parsed
+const HTTP_URL_PATTERN = /^https?:\/\/[^\s/?#]+[^\s]*$/i;
+const APP_URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/[^\s]*$/i;
+const PLACEHOLDER_PATTERN = /^your_|_here$|^yourbaseurl|^https?:\/\/your/i;
+
+// Each reader records problems in `issues` and returns the cleaned value (or
+// undefined), so one pass reports everything that is wrong
+class EnvReader {
+  readonly issues: ConfigIssue[] = [];
+
+  constructor(private env: StackEnv) {}
+
+  private report(variable: string, message: string): undefined {
+    this.issues.push({ variable, message });
+    return undefined;
+  }
+
+  optionalString(variable: keyof StackEnv): string | undefined {
+    const value = this.env[variable]?.trim();
+    if (!value) return undefined;
+    if (PLACEHOLDER_PATTERN.test(value)) {
+      return this.report(variable, 'still has the placeholder value from .env.example');
+    }
+    if (/\s/.test(value)) {
+      return this.report(variable, 'must not contain whitespace');
+    }
+    return value;
+  }
+
+  requiredString(variable: keyof StackEnv): string | undefined {
+    if (!this.env[variable]?.trim()) {
+      return this.report(variable, 'is required but not set');
+    }
+    return this.optionalString(variable);
+  }
+
+  optionalHttpUrl(variable: keyof StackEnv): string | undefined {
+    const value = this.optionalString(variable);
+    if (value !== undefined && !HTTP_URL_PATTERN.test(value)) {
+      return this.report(variable, 'must be an http:// or https:// URL');
+    }
+    return value;
+  }
+
+  // Redirect URIs may also use the app's own scheme, e.g. myapp://oauth-callback
+  optionalAppUrl(variable: keyof StackEnv): string | undefined {
+    const value = this.optionalString(variable);
+    if (value !== undefined && !APP_URL_PATTERN.test(value)) {
+      return this.report(variable, 'must be an absolute URL such as https://example.com/callback');
+    }
+    return value;
+  }
+
+  check(variable: keyof StackEnv, valid: boolean, message: string) {
+    if (!valid) this.report(variable, message);
+  }
+}
+
+export const validateStackConfig = (env: StackEnv, isDevelopment: boolean): Result<StackConfig, ConfigIssue[]> => {
+  const reader = new EnvReader(env);
+
+  const projectId = reader.requiredString('EXPO_PUBLIC_STACK_PROJECT_ID');
+  const publishableClientKey = reader.requiredString('EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY');
+
+  const baseUrl = reader.optionalHttpUrl('EXPO_PUBLIC_STACK_BASE_URL')?.replace(/\/+$/, '');
+  if (baseUrl) {
+    reader.check('EXPO_PUBLIC_STACK_BASE_URL', /\/api\/v\d+$/.test(baseUrl), 'must end with the API version path, e.g. /api/v1');
+  }
+
+  const serverProxyUrl = reader.optionalHttpUrl('EXPO_PUBLIC_STACK_SERVER_PROXY_URL');
+  const serverSecretKey = reader.optionalString('EXPO_PUBLIC_STACK_SERVER_SECRET_KEY');
+  if (serverSecretKey) {
+    reader.check(
+      'EXPO_PUBLIC_STACK_SERVER_SECRET_KEY',
+      isDevelopment,
+      'must not be set in production builds; use EXPO_PUBLIC_STACK_SERVER_PROXY_URL instead'
+    );
+  }
+
+  const oauthRedirectUri = reader.optionalAppUrl('EXPO_PUBLIC_OAUTH_REDIRECT_URI');
+  const teamInvitationUrl = reader.optionalHttpUrl('EXPO_PUBLIC_TEAM_INVITATION_BASE_URL');
+  const magicLinkUrl = reader.optionalAppUrl('EXPO_PUBLIC_MAGIC_LINK_URL');
+  const passwordResetUrl = reader.optionalAppUrl('EXPO_PUBLIC_PASSWORD_RESET_URL');
+  const emailVerificationUrl = reader.optionalAppUrl('EXPO_PUBLIC_EMAIL_VERIFICATION_URL');
+
+  if (reader.issues.length > 0 || !projectId || !publishableClientKey) {
+    return { success: false, error: reader.issues };
+  }
+  return {
+    success: true,
+    data: {
+      projectId,
+      publishableClientKey,
+      baseUrl: baseUrl || DEFAULT_STACK_BASE_URL,
+      serverProxyUrl,
+      serverSecretKey,
+      oauthRedirectUri,
+      teamInvitationUrl,
+      magicLinkUrl,
+      passwordResetUrl,
+      emailVerificationUrl,
+    },
+  };
+};
+
+// Validates the configuration this build was compiled with
+export const loadStackConfig = (): Result<StackConfig, ConfigIssue[]> => validateStackConfig(readStackEnv(), __DEV__);
@@ -0,0 +1,47 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+// Tells StackAuthClient whether the device can currently reach the network.
+// "Unknown" counts as online so a slow first NetInfo reading never blocks requests.
+export interface ConnectivityMonitor {
+  isOnline(): boolean;
+  // Called whenever the online state flips
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+const isReachable = (state: NetInfoState) => state.isConnected !== false && state.isInternetReachable !== false;
+
+export class NetInfoConnectivityMonitor implements ConnectivityMonitor {
+  private online = true;
+  private listeners = new Set<(online: boolean) => void>();
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  isOnline(): boolean {
+    this.start();
+    return this.online;
+  }
+
+  subscribe(listener: (online: boolean) => void): () => void {
+    this.start();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // NetInfo is only attached once somebody asks
+  private start(): void {
+    if (this.unsubscribeNetInfo) return;
+    this.unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      const online = isReachable(state);
+      if (online === this.online) return;
+      this.online = online;
+      this.listeners.forEach(listener => listener(online));
+    });
+  }
+}
+
+// For tests and platforms where connectivity should not be tracked
+export const alwaysOnline: ConnectivityMonitor = {
+  isOnline: () => true,
+  subscribe: () => () => {},
+};
@@ -0,0 +1,179 @@
+import { StackAuthDecodeError } from './models';
+
+// Error codes the Stack API reports in the `code` field (and the
+// `x-stack-known-error` header) that callers are expected to branch on.
+export const STACK_ERROR_CODES = [
+  'EMAIL_PASSWORD_MISMATCH',
+  'USER_EMAIL_ALREADY_EXISTS',
+  'USER_NOT_FOUND',
+  'PASSWORD_TOO_SHORT',
+  'PASSWORD_TOO_LONG',
+  'PASSWORD_REQUIREMENTS_NOT_MET',
+  'PASSWORD_AUTHENTICATION_NOT_ENABLED',
+  'SIGN_UP_NOT_ENABLED',
+  'ACCESS_TOKEN_EXPIRED',
+  'UNPARSABLE_ACCESS_TOKEN',
+  'REFRESH_TOKEN_NOT_FOUND_OR_EXPIRED',
+  'CANNOT_DELETE_CURRENT_SESSION',
+  'INVALID_AUTHORIZATION_CODE',
+  'OAUTH_PROVIDER_NOT_FOUND_OR_NOT_ENABLED',
+  'PROJECT_NOT_FOUND',
+  'TEAM_NOT_FOUND',
+  'TEAM_MEMBERSHIP_NOT_FOUND',
+  'TEAM_PERMISSION_REQUIRED',
+  'VERIFICATION_CODE_NOT_FOUND',
+  'VERIFICATION_CODE_EXPIRED',
+  'VERIFICATION_CODE_ALREADY_USED',
+  'EMAIL_ALREADY_VERIFIED',
+  'SCHEMA_ERROR',
+] as const;
+
+export type StackErrorCode = (typeof STACK_ERROR_CODES)[number];
+
+export type StackAuthError =
+  | { kind: 'network'; message: string }
+  | { kind: 'timeout'; message: string }
+  | { kind: 'aborted'; message: string }
+  // The device is offline and the call needs the server
+  | { kind: 'offline'; message: string }
+  // The device is offline; the mutation was queued and will be replayed on reconnect
+  | { kind: 'queued'; message: string; mutationId: string }
+  | { kind: 'unauthorized'; message: string; code?: string }
+  | { kind: 'forbidden'; message: string; code?: string }
+  | { kind: 'validation'; message: string; code?: string; details?: unknown }
+  | { kind: 'rate_limited'; message: string; retryAfterMs?: number }
+  | { kind: 'server'; message: string; status: number }
+  | { kind: 'stack'; code: StackErrorCode; message: string; status: number; details?: unknown }
+  | { kind: 'invalid_response'; message: string; path?: string }
+  | { kind: 'unknown'; message: string; status?: number };
+
+export type StackAuthErrorKind = StackAuthError['kind'];
+
+export type Result<T, E = StackAuthError> = { success: true; data: T } | { success: false; error: E };
+
+export const ok = <T>(data: T): Result<T, never> => ({ success: true, data });
+
+export const err = (error: StackAuthError): Result<never> => ({ success: false, error });
+
+// Carries a StackAuthError out of APIs that can't return a Result, such as
+// the list iterators (listAllTeamMembers and friends)
+export class StackAuthRequestError extends Error {
+  constructor(public readonly error: StackAuthError) {
+    super(error.message);
+    this.name = 'StackAuthRequestError';
+  }
+}
+
+export const isStackErrorCode = (code: unknown): code is StackErrorCode =>
+  typeof code === 'string' && (STACK_ERROR_CODES as readonly string[]).includes(code);
+
+export const hasStackErrorCode = (error: StackAuthError, code: StackErrorCode) =>
+  error.kind === 'stack' && error.code === code;
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Errors that say nothing about the session itself: the request may well
+// succeed later, so callers should keep the stored tokens
+export const isTransientError = (error: StackAuthError) =>
+  error.kind === 'network' ||
+  error.kind === 'timeout' ||
+  error.kind === 'offline' ||
+  error.kind === 'server' ||
+  error.kind === 'rate_limited';
+
+// Errors that mean the server no longer accepts the session's tokens, the
+// only reason to clear a stored session after a failed read
+export const isSessionExpiredError = (error: StackAuthError) =>
+  error.kind === 'unauthorized' ||
+  hasStackErrorCode(error, 'ACCESS_TOKEN_EXPIRED') ||
+  hasStackErrorCode(error, 'UNPARSABLE_ACCESS_TOKEN') ||
+  hasStackErrorCode(error, 'REFRESH_TOKEN_NOT_FOUND_OR_EXPIRED');
+
+const nonEmptyString = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+// Builds a StackAuthError from a non-2xx response. The body is read
+// defensively since proxies and gateways do not always answer with JSON.
+export const errorFromResponse = async (response: Response, fallbackMessage: string): Promise<StackAuthError> => {
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Not JSON; fall through with the status code alone
+  }
+
+  const fields: Record<string, unknown> = body !== null && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+  const code = nonEmptyString(fields.code) ?? response.headers.get('x-stack-known-error') ?? undefined;
+  const message = nonEmptyString(fields.error) || nonEmptyString(fields.message) || fallbackMessage;
+  const details = fields.details;
+
+  if (response.status === 429) {
+    return { kind: 'rate_limited', message, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) };
+  }
+  if (isStackErrorCode(code)) {
+    return { kind: 'stack', code, message, status: response.status, details };
+  }
+  if (response.status === 401) {
+    return { kind: 'unauthorized', message, code };
+  }
+  if (response.status === 403) {
+    return { kind: 'forbidden', message, code };
+  }
+  if (response.status === 400 || response.status === 422) {
+    return { kind: 'validation', message, code, details };
+  }
+  if (response.status >= 500) {
+    return { kind: 'server', message, status: response.status };
+  }
+  return { kind: 'unknown', message, status: response.status };
+};
+
+// Maps a thrown exception (fetch failure, decode failure, timeout, abort) to a StackAuthError
+export const errorFromException = (error: unknown, fallbackMessage: string): StackAuthError => {
+  if (error instanceof StackAuthDecodeError) {
+    return { kind: 'invalid_response', message: error.message, path: error.path };
+  }
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return { kind: 'timeout', message: error.message };
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { kind: 'aborted', message: error.message };
+  }
+  return { kind: 'network', message: fallbackMessage };
+};
+
+// User-facing text for an error, for places that only need to show a message
+export const describeError = (error: StackAuthError): string => {
+  switch (error.kind) {
+    case 'network':
+      return 'Unable to reach the server. Check your connection and try again.';
+    case 'timeout':
+      return 'The request timed out. Please try again.';
+    case 'aborted':
+      return 'The request was cancelled.';
+    case 'offline':
+      return "You're offline. Connect to the internet and try again.";
+    case 'queued':
+      return "You're offline. Your change was saved and will sync when you're back online.";
+    case 'unauthorized':
+      return 'Your session has expired. Please sign in again.';
+    case 'forbidden':
+      return 'You do not have permission to do that.';
+    case 'rate_limited':
+      return error.retryAfterMs
+        ? `Too many attempts. Try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`
+        : 'Too many attempts. Please wait and try again.';
+    case 'server':
+      return 'The server encountered an error. Please try again later.';
+    case 'invalid_response':
+      return 'Received an unexpected response from the server.';
+    default:
+      return error.message;
+  }
+};
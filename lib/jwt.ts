@@ -0,0 +1,31 @@
+// Minimal JWT helpers. Tokens are only decoded, never verified: the client
+// uses the claims for scheduling, and the server remains the authority.
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return atob(padded);
+};
+
+export const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const payload = JSON.parse(decodeBase64Url(parts[1]));
+    return typeof payload === 'object' && payload !== null ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns the `exp` claim in epoch milliseconds, or null when the token has none
+export const getJwtExpiry = (token: string): number | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+// Returns the `sub` claim, which for Stack access tokens is the user ID
+export const getJwtSubject = (token: string): string | null => {
+  const sub = decodeJwtPayload(token)?.sub;
+  return typeof sub === 'string' ? sub : null;
+};
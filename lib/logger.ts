@@ -0,0 +1,129 @@
+// Small leveled logger. Everything passed as context goes through `redact`
+// before it reaches the sink, so credentials never end up in device logs or
+// crash reports. Production builds are silent unless configured otherwise.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  scope: string;
+  message: string;
+  context?: unknown;
+  timestamp: number;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface Logger {
+  debug(message: string, context?: unknown): void;
+  info(message: string, context?: unknown): void;
+  warn(message: string, context?: unknown): void;
+  error(message: string, context?: unknown): void;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+export const REDACTED = '[REDACTED]';
+
+// Matched against lower-cased keys with separators removed, so
+// `refresh_token`, `X-Stack-Refresh-Token` and `refreshToken` all match
+const SENSITIVE_KEY_PARTS = ['password', 'token', 'secret', 'verifier', 'authorization', 'cookie'];
+const SENSITIVE_QUERY_PARAMS = /([?&#](?:code|state|token|access_token|refresh_token|code_verifier|password)=)[^&#\s]*/gi;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /\b(Bearer\s+)[^\s,;"']+/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// Stack Auth error codes (EMAIL_PASSWORD_MISMATCH, ...) are safe to log and
+// useful for debugging; any other `code` is an OAuth or verification code
+const ERROR_CODE_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+const MAX_DEPTH = 6;
+
+const isSensitiveKey = (key: string) => {
+  const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return SENSITIVE_KEY_PARTS.some(part => normalized.includes(part)) || normalized.endsWith('code');
+};
+
+const redactString = (value: string) =>
+  value
+    .replace(SENSITIVE_QUERY_PARAMS, `$1${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(BEARER_PATTERN, `$1${REDACTED}`)
+    .replace(EMAIL_PATTERN, REDACTED);
+
+const redactValue = (value: unknown, depth: number, seen: WeakSet<object>): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const keepErrorCode = key === 'code' && typeof item === 'string' && ERROR_CODE_PATTERN.test(item);
+    result[key] = isSensitiveKey(key) && !keepErrorCode && item != null ? REDACTED : redactValue(item, depth + 1, seen);
+  }
+  return result;
+};
+
+// Returns a copy of `value` with passwords, tokens, codes, secret keys and
+// email addresses masked
+export const redact = (value: unknown): unknown => redactValue(value, 0, new WeakSet());
+
+export const consoleSink: LogSink = ({ level, scope, message, context }) => {
+  const line = `[${scope}] ${message}`;
+  if (context === undefined) {
+    console[level](line);
+  } else {
+    console[level](line, context);
+  }
+};
+
+let minimumLevel: LogLevel | 'silent' = __DEV__ ? 'debug' : 'silent';
+let activeSink: LogSink = consoleSink;
+
+export interface LoggerConfig {
+  level?: LogLevel | 'silent';
+  sink?: LogSink;
+}
+
+// Changes the level and/or sink for every logger, including ones already created
+export const configureLogger = ({ level, sink }: LoggerConfig) => {
+  if (level) minimumLevel = level;
+  if (sink) activeSink = sink;
+};
+
+export const createLogger = (scope: string): Logger => {
+  const log = (level: LogLevel) => (message: string, context?: unknown) => {
+    if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[minimumLevel]) return;
+    try {
+      activeSink({
+        level,
+        scope,
+        message,
+        context: context === undefined ? undefined : redact(context),
+        timestamp: Date.now(),
+      });
+    } catch {
+      // A broken sink must never take the app down with it
+    }
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+  };
+};
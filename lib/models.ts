@@ -0,0 +1,287 @@
+// Shared domain models for Stack Auth responses.
+//
+// The Stack REST API speaks snake_case and is loosely typed from the client's
+// point of view, so every payload goes through a decoder here before it leaves
+// StackAuthClient. A decoder throws StackAuthDecodeError when the payload does
+// not have the expected shape, which keeps malformed responses at the client
+// boundary instead of surfacing as undefined fields inside components.
+
+export interface User {
+  id: string;
+  email?: string;
+  // Whether the user has proven they own `email`; false without one
+  primaryEmailVerified: boolean;
+  displayName?: string;
+  profileImageUrl?: string;
+}
+
+export interface Team {
+  id: string;
+  displayName: string;
+  profileImageUrl?: string;
+  clientMetadata?: Record<string, unknown>;
+}
+
+export interface TeamMember {
+  userId: string;
+  teamId: string;
+  displayName?: string;
+  profileImageUrl?: string;
+  // Only present when the profile was fetched with server access
+  email?: string;
+}
+
+export interface TeamPermission {
+  id: string;
+  teamId?: string;
+  userId?: string;
+}
+
+export interface TeamInvitation {
+  id: string;
+  teamId: string;
+  recipientEmail?: string;
+  expiresAtMillis: number;
+}
+
+// One page of a cursor-paginated list
+export interface Page<T> {
+  items: T[];
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+export interface SessionLocation {
+  ip: string;
+  cityName?: string;
+  regionCode?: string;
+  countryCode?: string;
+}
+
+// A signed-in device of the current user
+export interface AuthSession {
+  id: string;
+  createdAtMillis: number;
+  lastUsedAtMillis?: number;
+  // The session this client is using
+  isCurrent: boolean;
+  isImpersonation: boolean;
+  // Where the session was last used from, when the server knows
+  lastUsedFrom?: SessionLocation;
+}
+
+export interface TeamUpdate {
+  displayName?: string;
+  profileImageUrl?: string;
+  clientMetadata?: Record<string, unknown>;
+}
+
+export interface TeamMemberProfileUpdate {
+  displayName?: string;
+  profileImageUrl?: string;
+}
+
+export class StackAuthDecodeError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`Invalid Stack Auth response at ${path}: ${message}`);
+    this.name = 'StackAuthDecodeError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const expectObject = (value: unknown, path: string): JsonObject => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new StackAuthDecodeError(path, `expected object, got ${describe(value)}`);
+  }
+  return value as JsonObject;
+};
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') {
+    throw new StackAuthDecodeError(path, `expected string, got ${describe(value)}`);
+  }
+  return value;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new StackAuthDecodeError(path, `expected number, got ${describe(value)}`);
+  }
+  return value;
+};
+
+// The API uses null for unset optional fields; the models use undefined
+const optionalString = (value: unknown, path: string): string | undefined => {
+  if (value === null || value === undefined) return undefined;
+  return expectString(value, path);
+};
+
+const optionalObject = (value: unknown, path: string): JsonObject | undefined => {
+  if (value === null || value === undefined) return undefined;
+  return expectObject(value, path);
+};
+
+const optionalNumber = (value: unknown, path: string): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  return expectNumber(value, path);
+};
+
+export const decodeList = <T>(
+  payload: unknown,
+  decodeItem: (item: unknown, path: string) => T,
+  path: string = 'response'
+): T[] => {
+  const data = expectObject(payload, path);
+  if (!Array.isArray(data.items)) {
+    throw new StackAuthDecodeError(`${path}.items`, `expected array, got ${describe(data.items)}`);
+  }
+  return data.items.map((item, index) => decodeItem(item, `${path}.items[${index}]`));
+};
+
+// Lists that aren't paginated decode as a single, last page
+export const decodePage = <T>(
+  payload: unknown,
+  decodeItem: (item: unknown, path: string) => T,
+  path: string = 'response'
+): Page<T> => {
+  const data = expectObject(payload, path);
+  const pagination = optionalObject(data.pagination, `${path}.pagination`);
+  return {
+    items: decodeList(data, decodeItem, path),
+    nextCursor: optionalString(pagination?.next_cursor, `${path}.pagination.next_cursor`) ?? null,
+  };
+};
+
+export const decodeUser = (payload: unknown, path: string = 'user'): User => {
+  const data = expectObject(payload, path);
+  const email = optionalString(data.primary_email, `${path}.primary_email`);
+  return {
+    id: expectString(data.id, `${path}.id`),
+    email,
+    primaryEmailVerified: email !== undefined && data.primary_email_verified === true,
+    displayName: optionalString(data.display_name, `${path}.display_name`) || email?.split('@')[0],
+    profileImageUrl: optionalString(data.profile_image_url, `${path}.profile_image_url`),
+  };
+};
+
+export const decodeTeam = (payload: unknown, path: string = 'team'): Team => {
+  const data = expectObject(payload, path);
+  return {
+    id: expectString(data.id, `${path}.id`),
+    displayName: expectString(data.display_name, `${path}.display_name`),
+    profileImageUrl: optionalString(data.profile_image_url, `${path}.profile_image_url`),
+    clientMetadata: optionalObject(data.client_metadata, `${path}.client_metadata`),
+  };
+};
+
+export const decodeTeamMember = (payload: unknown, path: string = 'member'): TeamMember => {
+  const data = expectObject(payload, path);
+  const user = optionalObject(data.user, `${path}.user`);
+  return {
+    userId: expectString(data.user_id, `${path}.user_id`),
+    teamId: expectString(data.team_id, `${path}.team_id`),
+    displayName: optionalString(data.display_name, `${path}.display_name`),
+    profileImageUrl: optionalString(data.profile_image_url, `${path}.profile_image_url`),
+    email: user ? optionalString(user.primary_email, `${path}.user.primary_email`) : undefined,
+  };
+};
+
+export const decodeTeamPermission = (payload: unknown, path: string = 'permission'): TeamPermission => {
+  const data = expectObject(payload, path);
+  return {
+    id: expectString(data.id, `${path}.id`),
+    teamId: optionalString(data.team_id, `${path}.team_id`),
+    userId: optionalString(data.user_id, `${path}.user_id`),
+  };
+};
+
+export const decodeTeamInvitation = (payload: unknown, path: string = 'invitation'): TeamInvitation => {
+  const data = expectObject(payload, path);
+  return {
+    id: expectString(data.id, `${path}.id`),
+    teamId: expectString(data.team_id, `${path}.team_id`),
+    recipientEmail: optionalString(data.recipient_email, `${path}.recipient_email`),
+    expiresAtMillis: expectNumber(data.expires_at_millis, `${path}.expires_at_millis`),
+  };
+};
+
+export const decodeAuthSession = (payload: unknown, path: string = 'session'): AuthSession => {
+  const data = expectObject(payload, path);
+  const locationPath = `${path}.last_used_at_end_user_ip_info`;
+  const location = optionalObject(data.last_used_at_end_user_ip_info, locationPath);
+  return {
+    id: expectString(data.id, `${path}.id`),
+    createdAtMillis: expectNumber(data.created_at, `${path}.created_at`),
+    lastUsedAtMillis: optionalNumber(data.last_used_at, `${path}.last_used_at`),
+    isCurrent: data.is_current_session === true,
+    isImpersonation: data.is_impersonation === true,
+    lastUsedFrom: location && {
+      ip: expectString(location.ip, `${locationPath}.ip`),
+      cityName: optionalString(location.city_name, `${locationPath}.city_name`),
+      regionCode: optionalString(location.region_code, `${locationPath}.region_code`),
+      countryCode: optionalString(location.country_code, `${locationPath}.country_code`),
+    },
+  };
+};
+
+// The answer to sending a sign-in code; the code the user types is completed with this nonce
+export const decodeSignInCodeNonce = (payload: unknown, path: string = 'response'): string =>
+  expectString(expectObject(payload, path).nonce, `${path}.nonce`);
+
+// Tokens of a new session, as sign in, sign up and the OAuth code exchange return them
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  userId: string;
+}
+
+export const decodeSessionTokens = (payload: unknown, path: string = 'response'): SessionTokens => {
+  const data = expectObject(payload, path);
+  return {
+    accessToken: expectString(data.access_token, `${path}.access_token`),
+    refreshToken: expectString(data.refresh_token, `${path}.refresh_token`),
+    userId: expectString(data.user_id, `${path}.user_id`),
+  };
+};
+
+// A one-time code sign in also says whether it created the account
+export const decodeCodeSignIn = (payload: unknown, path: string = 'response'): SessionTokens & { isNewUser: boolean } => ({
+  ...decodeSessionTokens(payload, path),
+  isNewUser: expectObject(payload, path).is_new_user === true,
+});
+
+// The new access token a session refresh returns
+export const decodeRefreshedAccessToken = (payload: unknown, path: string = 'response'): string =>
+  expectString(expectObject(payload, path).access_token, `${path}.access_token`);
+
+// The id of the invitation team-invitations/send-code created
+export const decodeSentInvitationId = (payload: unknown, path: string = 'response'): string =>
+  expectString(expectObject(payload, path).id, `${path}.id`);
+
+export const decodeOAuthProviders = (payload: unknown, path: string = 'project'): string[] => {
+  const data = expectObject(payload, path);
+  const config = optionalObject(data.config, `${path}.config`);
+  const providers = config?.enabled_oauth_providers;
+  if (providers === undefined || providers === null) return [];
+  if (!Array.isArray(providers)) {
+    throw new StackAuthDecodeError(`${path}.config.enabled_oauth_providers`, `expected array, got ${describe(providers)}`);
+  }
+  return providers.map((provider, index) => {
+    const item = expectObject(provider, `${path}.config.enabled_oauth_providers[${index}]`);
+    return expectString(item.id, `${path}.config.enabled_oauth_providers[${index}].id`);
+  });
+};
+
+export const encodeTeamUpdate = (updates: TeamUpdate) => ({
+  display_name: updates.displayName,
+  profile_image_url: updates.profileImageUrl,
+  client_metadata: updates.clientMetadata,
+});
+
+export const encodeTeamMemberProfileUpdate = (updates: TeamMemberProfileUpdate) => ({
+  display_name: updates.displayName,
+  profile_image_url: updates.profileImageUrl,
+});
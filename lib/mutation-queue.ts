@@ -0,0 +1,135 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { StackAuthError } from './errors';
+import { createLogger } from './logger';
+import { TeamMemberProfileUpdate, TeamUpdate } from './models';
+
+const log = createLogger('MutationQueue');
+
+// Mutations that may be queued while offline. Both set absolute values, so
+// replaying one that already reached the server changes nothing.
+export type QueuedMutation = {
+  id: string;
+  teamId: string;
+  // The account that made the edit; it is only replayed with that account's session
+  accountId?: string;
+  queuedAt: number;
+  // Values of the updated fields as the app last saw them, used to detect
+  // that someone else changed them in the meantime
+  baseline?: Record<string, unknown>;
+} & (
+  | { kind: 'updateTeam'; updates: TeamUpdate }
+  | { kind: 'updateTeamMemberProfile'; updates: TeamMemberProfileUpdate }
+);
+
+export type NewQueuedMutation = Omit<QueuedMutation, 'id' | 'queuedAt'>;
+
+export type MutationReplayOutcome =
+  | { status: 'applied'; mutation: QueuedMutation }
+  // The server value of `fields` changed since the mutation was queued; it was dropped
+  | { status: 'conflict'; mutation: QueuedMutation; fields: string[] }
+  | { status: 'failed'; mutation: QueuedMutation; error: StackAuthError };
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Fields where the server no longer holds the baseline value and doesn't
+// already hold the queued one either
+export const findConflicts = (
+  baseline: Record<string, unknown> | undefined,
+  updates: object,
+  current: object
+): string[] => {
+  if (!baseline) return [];
+  const queued = updates as Record<string, unknown>;
+  const server = current as Record<string, unknown>;
+  return Object.keys(queued).filter(
+    field => field in baseline && !sameValue(server[field], baseline[field]) && !sameValue(server[field], queued[field])
+  );
+};
+
+// Ordered, persisted list of mutations waiting for connectivity
+export class MutationQueue {
+  private mutations: QueuedMutation[] = [];
+  private listeners = new Set<(pending: QueuedMutation[]) => void>();
+  private hydration: Promise<void> | null = null;
+
+  // `storageKey` null keeps the queue in memory only
+  constructor(private storageKey: string | null = null) {}
+
+  ready(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.hydrate().catch(error => {
+        log.warn('Could not load queued mutations', { error });
+      });
+    }
+    return this.hydration;
+  }
+
+  private async hydrate(): Promise<void> {
+    if (!this.storageKey) return;
+    const json = await AsyncStorage.getItem(this.storageKey);
+    if (json) {
+      this.mutations = [...JSON.parse(json), ...this.mutations];
+    }
+  }
+
+  list(): QueuedMutation[] {
+    return [...this.mutations];
+  }
+
+  // Queues `mutation`, folding it into a pending mutation of the same kind for
+  // the same team and account. The older baseline is kept since that's what the user saw.
+  async add(mutation: NewQueuedMutation): Promise<QueuedMutation> {
+    await this.ready();
+    const existing = this.mutations.find(
+      item => item.kind === mutation.kind && item.teamId === mutation.teamId && item.accountId === mutation.accountId
+    );
+    let queued: QueuedMutation;
+    if (existing) {
+      queued = {
+        ...existing,
+        updates: { ...existing.updates, ...mutation.updates },
+        baseline: { ...mutation.baseline, ...existing.baseline },
+      } as QueuedMutation;
+      this.mutations = this.mutations.map(item => (item === existing ? queued : item));
+    } else {
+      queued = { ...mutation, id: Crypto.randomUUID(), queuedAt: Date.now() } as QueuedMutation;
+      this.mutations = [...this.mutations, queued];
+    }
+    await this.changed();
+    return queued;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.ready();
+    this.mutations = this.mutations.filter(item => item.id !== id);
+    await this.changed();
+  }
+
+  // Removes every mutation, or only those that match
+  async clear(matches: (mutation: QueuedMutation) => boolean = () => true): Promise<void> {
+    await this.ready();
+    const remaining = this.mutations.filter(item => !matches(item));
+    if (remaining.length === this.mutations.length) return;
+    this.mutations = remaining;
+    await this.changed();
+  }
+
+  subscribe(listener: (pending: QueuedMutation[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async changed(): Promise<void> {
+    const pending = this.list();
+    this.listeners.forEach(listener => listener(pending));
+    if (!this.storageKey) return;
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(pending));
+    } catch (error) {
+      log.warn('Could not persist queued mutations', { error });
+    }
+  }
+}
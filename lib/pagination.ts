@@ -0,0 +1,57 @@
+import { err, ok, Result, StackAuthRequestError } from './errors';
+import { Page } from './models';
+
+// Cursor pagination as the Stack list endpoints do it: a request carries an
+// optional `cursor` and `limit`, and the response's `pagination.next_cursor`
+// names the next page until it comes back null.
+
+export interface PageRequest {
+  // From the previous page's nextCursor; omitted for the first page
+  cursor?: string;
+  // Items per page; the server picks a default when omitted
+  limit?: number;
+}
+
+// Adds the page parameters to an endpoint that may already have a query
+export const withPageParams = (endpoint: string, page: PageRequest = {}): string => {
+  const params: string[] = [];
+  if (page.cursor) params.push(`cursor=${encodeURIComponent(page.cursor)}`);
+  if (page.limit) params.push(`limit=${page.limit}`);
+  if (params.length === 0) return endpoint;
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params.join('&')}`;
+};
+
+type PageLoader<T> = (cursor: string | undefined) => Promise<Result<Page<T>>>;
+
+// Follows cursors until the last page. A cursor the server already returned
+// ends the walk, so a misbehaving server can't keep it going forever.
+export const collectPages = async <T>(loadPage: PageLoader<T>): Promise<Result<T[]>> => {
+  const items: T[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await loadPage(cursor);
+    if (!page.success) return err(page.error);
+    items.push(...page.data.items);
+    cursor = page.data.nextCursor ?? undefined;
+    if (cursor && seen.has(cursor)) break;
+    if (cursor) seen.add(cursor);
+  } while (cursor);
+  return ok(items);
+};
+
+// Yields the items of every page, loading each page as the previous one runs
+// out. A failed page throws StackAuthRequestError, as a generator can't
+// return a Result to a for await loop.
+export async function* iteratePages<T>(loadPage: PageLoader<T>): AsyncGenerator<T, void, undefined> {
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await loadPage(cursor);
+    if (!page.success) throw new StackAuthRequestError(page.error);
+    yield* page.data.items;
+    cursor = page.data.nextCursor ?? undefined;
+    if (cursor && seen.has(cursor)) return;
+    if (cursor) seen.add(cursor);
+  } while (cursor);
+}
@@ -0,0 +1,62 @@
+import { createAbortError } from './abort';
+import { parseRetryAfter } from './errors';
+
+export interface RetryPolicy {
+  // Total attempts including the first one; 1 disables retries
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longest Retry-After the client will wait out; longer waits are returned to the caller
+  maxRetryAfterMs: number;
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 10000,
+  retryableStatuses: [408, 429, 502, 503, 504],
+};
+
+export const NO_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export const isIdempotentMethod = (method: string) => IDEMPOTENT_METHODS.includes(method.toUpperCase());
+
+// Exponential backoff with full jitter: a random delay in [0, base * 2^attempt]
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random) =>
+  Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt));
+
+// Delay before retrying after `response`, or null when it should not be retried.
+// 429 and 503 answers carry the server's own schedule in Retry-After.
+export const getRetryDelayForResponse = (response: Response, attempt: number, policy: RetryPolicy): number | null => {
+  if (!policy.retryableStatuses.includes(response.status)) return null;
+
+  if (response.status === 429 || response.status === 503) {
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfter !== undefined) {
+      return retryAfter <= policy.maxRetryAfterMs ? retryAfter : null;
+    }
+  }
+  return getBackoffDelay(attempt, policy);
+};
+
+// Waits `ms`, rejecting early with an AbortError if `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
@@ -0,0 +1,135 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLogger } from './logger';
+
+const log = createLogger('SignInThrottle');
+
+export interface SignInBackoffPolicy {
+  // Failed attempts allowed before the first lockout
+  freeAttempts: number;
+  // Lockout after the first failure past the free ones; doubles with each further failure
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+  // Failures older than this are forgotten
+  resetAfterMs: number;
+  // Lockout after a rate-limit response that didn't say how long to wait
+  rateLimitLockoutMs: number;
+}
+
+export const DEFAULT_SIGN_IN_BACKOFF_POLICY: SignInBackoffPolicy = {
+  freeAttempts: 3,
+  baseLockoutMs: 5 * 1000,
+  maxLockoutMs: 5 * 60 * 1000,
+  resetAfterMs: 24 * 60 * 60 * 1000,
+  rateLimitLockoutMs: 30 * 1000,
+};
+
+interface SignInAttempts {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Client-side progressive backoff for password sign in, per email and
+// persisted, so restarting the app doesn't reset a lockout. The server's own
+// rate limit is recorded here too, so its Retry-After is honoured before the
+// next attempt is even sent.
+export class SignInThrottle {
+  private attempts = new Map<string, SignInAttempts>();
+  private hydration: Promise<void> | null = null;
+
+  // `storageKey` null keeps attempts in memory only
+  constructor(
+    private storageKey: string | null = null,
+    private policy: SignInBackoffPolicy = DEFAULT_SIGN_IN_BACKOFF_POLICY,
+    private now: () => number = Date.now
+  ) {}
+
+  ready(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.hydrate().catch(error => {
+        log.warn('Could not load sign-in attempts', { error });
+      });
+    }
+    return this.hydration;
+  }
+
+  private async hydrate(): Promise<void> {
+    if (!this.storageKey) return;
+    const json = await AsyncStorage.getItem(this.storageKey);
+    if (!json) return;
+    const persisted: Record<string, SignInAttempts> = JSON.parse(json);
+    for (const [email, attempts] of Object.entries(persisted)) {
+      if (!this.attempts.has(email)) this.attempts.set(email, attempts);
+    }
+  }
+
+  // Milliseconds until `email` may try again, or 0
+  async getLockout(email: string): Promise<number> {
+    await this.ready();
+    const attempts = this.current(normalizeEmail(email));
+    return attempts ? Math.max(0, attempts.lockedUntil - this.now()) : 0;
+  }
+
+  // A wrong password; returns the lockout it caused, or 0
+  async recordFailure(email: string): Promise<number> {
+    await this.ready();
+    const key = normalizeEmail(email);
+    const failures = (this.current(key)?.failures ?? 0) + 1;
+    const excess = failures - this.policy.freeAttempts;
+    const lockoutMs =
+      excess > 0 ? Math.min(this.policy.maxLockoutMs, this.policy.baseLockoutMs * 2 ** (excess - 1)) : 0;
+    const now = this.now();
+    this.attempts.set(key, {
+      failures,
+      lastFailureAt: now,
+      lockedUntil: Math.max(now + lockoutMs, this.attempts.get(key)?.lockedUntil ?? 0),
+    });
+    await this.persist();
+    return lockoutMs;
+  }
+
+  // The server refused to try; locks `email` until it says to come back
+  async recordRateLimit(email: string, retryAfterMs: number = this.policy.rateLimitLockoutMs): Promise<void> {
+    await this.ready();
+    const key = normalizeEmail(email);
+    const now = this.now();
+    const previous = this.current(key);
+    this.attempts.set(key, {
+      failures: previous?.failures ?? 0,
+      lastFailureAt: now,
+      lockedUntil: Math.max(now + retryAfterMs, previous?.lockedUntil ?? 0),
+    });
+    await this.persist();
+  }
+
+  async recordSuccess(email: string): Promise<void> {
+    await this.ready();
+    if (this.attempts.delete(normalizeEmail(email))) {
+      await this.persist();
+    }
+  }
+
+  // The attempts for `key`, unless they are old enough to be forgotten
+  private current(key: string): SignInAttempts | undefined {
+    const attempts = this.attempts.get(key);
+    if (!attempts) return undefined;
+    if (this.now() - attempts.lastFailureAt >= this.policy.resetAfterMs && attempts.lockedUntil <= this.now()) {
+      this.attempts.delete(key);
+      return undefined;
+    }
+    return attempts;
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.storageKey) return;
+    // Forgotten attempts aren't written back
+    const entries = [...this.attempts.keys()].filter(key => this.current(key)).map(key => [key, this.attempts.get(key)]);
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(Object.fromEntries(entries)));
+    } catch (error) {
+      log.warn('Could not persist sign-in attempts', { error });
+    }
+  }
+}
@@ -1,109 +1,768 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Crypto from 'expo-crypto';
+import { AppState, NativeEventSubscription } from 'react-native';
+import { abortable, isAbortError, withTimeout } from './abort';
+import {
+  AuthSession,
+  decodeAuthSession,
+  decodeCodeSignIn,
+  decodeList,
+  decodeOAuthProviders,
+  decodePage,
+  decodeRefreshedAccessToken,
+  decodeSentInvitationId,
+  decodeSessionTokens,
+  decodeSignInCodeNonce,
+  decodeTeam,
+  decodeTeamInvitation,
+  decodeTeamMember,
+  decodeTeamPermission,
+  decodeUser,
+  encodeTeamMemberProfileUpdate,
+  encodeTeamUpdate,
+  Page,
+  SessionTokens,
+  StackAuthDecodeError,
+  Team,
+  TeamInvitation,
+  TeamMember,
+  TeamMemberProfileUpdate,
+  TeamPermission,
+  TeamUpdate,
+  User,
+} from './models';
+import { Account, accountFromUser, AccountList } from './accounts';
+import { AuthChangeEvent, AuthState, AuthStateListener, SIGNED_OUT, TokenChange, TokenChangeListener } from './auth-state';
+import { AsyncStorageCachePersistence, ResponseCache } from './cache';
+import { DEFAULT_STACK_BASE_URL } from './config';
+import { ConnectivityMonitor, NetInfoConnectivityMonitor } from './connectivity';
+import {
+  err,
+  errorFromException,
+  errorFromResponse,
+  hasStackErrorCode,
+  isTransientError,
+  ok,
+  Result,
+  StackAuthError,
+} from './errors';
+import { getJwtExpiry, getJwtSubject } from './jwt';
+import { createLogger } from './logger';
+import { collectPages, iteratePages, PageRequest, withPageParams } from './pagination';
+import { findConflicts, MutationQueue, MutationReplayOutcome, NewQueuedMutation, QueuedMutation } from './mutation-queue';
+import { createAccountTokenStorage, createDefaultTokenStorage, TokenStorage } from './token-storage';
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, getRetryDelayForResponse, isIdempotentMethod, RetryPolicy, sleep } from './retry';
+import { SignInThrottle } from './sign-in-throttle';
+import {
+  AuthMethod,
+  emitTelemetry,
+  failureFields,
+  noopTelemetrySink,
+  TelemetryEventData,
+  telemetryEndpoint,
+  TelemetrySink,
+} from './telemetry';
+import { FetchTransport, HttpTransport, joinUrl } from './transport';
 
-// Stack Auth configuration for React Native
-export const STACK_CONFIG = {
-  projectId: process.env.EXPO_PUBLIC_STACK_PROJECT_ID ,
-  publishableClientKey: process.env.EXPO_PUBLIC_STACK_PUBLISHABLE_CLIENT_KEY ,
-  serverSecretKey: process.env.EXPO_PUBLIC_STACK_SERVER_SECRET_KEY ,
-  baseUrl: process.env.EXPO_PUBLIC_STACK_BASE_URL ,
+export * from './accounts';
+export * from './auth-state';
+export * from './cache';
+export * from './config';
+export * from './connectivity';
+export * from './errors';
+export * from './logger';
+export * from './models';
+export * from './mutation-queue';
+export * from './pagination';
+export * from './retry';
+export * from './sign-in-throttle';
+export * from './telemetry';
+export * from './token-storage';
+export * from './transport';
+
+export interface StackAuthClientOptions {
+  projectId: string;
+  publishableClientKey: string;
+  // Stack API root including the version; defaults to https://api.stack-auth.com/api/v1
+  baseUrl?: string;
+  // Server proxy for server-privileged calls; see scripts/stack-server-proxy.js
+  serverProxyUrl?: string;
+  // Development only; the constructor throws if this is set in a production build
+  serverSecretKey?: string;
+  // Session of the active account; defaults to secure platform storage namespaced by project ID
+  storage?: TokenStorage;
+  // Accounts signed in on this device; defaults to one persisted per project,
+  // null allows a single account at a time
+  accounts?: AccountList | null;
+  // Sessions of signed-in accounts other than the active one, by user ID
+  accountStorage?: (userId: string) => TokenStorage;
+  // Backoff after failed password sign ins; defaults to one persisted per
+  // project, null leaves it to the server's rate limit alone
+  signInThrottle?: SignInThrottle | null;
+  transport?: HttpTransport;
+  retryPolicy?: RetryPolicy;
+  // Default per-call timeout in milliseconds
+  timeoutMs?: number;
+  // Response cache for reads; defaults to one persisted per project, null disables caching
+  cache?: ResponseCache | null;
+  // Defaults to NetInfo
+  connectivity?: ConnectivityMonitor;
+  // Offline queue for team edits; defaults to one persisted per project, null disables queueing
+  mutationQueue?: MutationQueue | null;
+  // Where the OAuth provider sends the user back to after sign in
+  oauthRedirectUri?: string;
+  // Callback URL put in team invitation emails
+  teamInvitationUrl?: string;
+  // Where the link in sign-in code emails leads; see app/magic-link.tsx
+  magicLinkUrl?: string;
+  // Where the link in password reset emails leads; see app/reset-password.tsx
+  passwordResetUrl?: string;
+  // Where the link in email verification emails leads; see app/verify-email.tsx
+  emailVerificationUrl?: string;
+  // Receives request timings and auth funnel events; off by default
+  telemetry?: TelemetrySink;
+}
+
+// Applied to every call that doesn't pass its own `timeoutMs`
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+// Refresh this long before the access token's `exp` so requests never race expiry
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// How long a cached read counts as fresh. Older entries are still returned
+// straight away, but also trigger a background revalidation.
+const CACHE_TTL_MS = {
+  user: 5 * 60 * 1000,
+  project: 60 * 60 * 1000,
+  teams: 60 * 1000,
+  members: 60 * 1000,
+  permissions: 60 * 1000,
+  invitations: 30 * 1000,
 };
 
-// Token storage interface using AsyncStorage
-export class StackTokenStorage {
-  private static ACCESS_TOKEN_KEY = '@stack_auth_access_token';
-  private static REFRESH_TOKEN_KEY = '@stack_auth_refresh_token';
+type AccessType = 'client' | 'server';
 
-  static async getAccessToken(): Promise<string | null> {
-    try {
-      return await AsyncStorage.getItem(this.ACCESS_TOKEN_KEY);
-    } catch (error) {
-      console.error('Error getting access token:', error);
-      return null;
+const log = createLogger('StackAuth');
+
+// Per-call options accepted by the public client methods
+export interface RequestOptions {
+  // Cancels the call; it then resolves with an `aborted` error
+  signal?: AbortSignal;
+  // Overrides the client's default timeout for this call, retries included
+  timeoutMs?: number;
+  // Retry this call under the client's retry policy even if it is not idempotent
+  retry?: boolean;
+  // 'reload' skips the cache for a cached read and stores the fresh answer
+  cache?: 'default' | 'reload';
+}
+
+interface ClientRequest extends RequestOptions {
+  // Defaults to the Stack API; server calls in proxy mode go to the proxy instead
+  baseUrl?: string;
+  method?: string;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+// A GET shared by every caller that asked for it while it was in flight
+interface InFlightRequest {
+  // Undecoded response data
+  promise: Promise<Result<unknown>>;
+  controller: AbortController;
+  // Callers still waiting; the call is aborted once none are
+  waiters: number;
+}
+
+// Stack Auth API client
+export class StackAuthClient {
+  private baseUrl: string;
+  private projectId: string;
+  private publishableClientKey: string;
+  private serverSecretKey: string;
+  private serverProxyUrl: string;
+  private oauthRedirectUri: string;
+  private teamInvitationUrl: string;
+  private magicLinkUrl: string;
+  private passwordResetUrl: string;
+  private emailVerificationUrl: string;
+  private storage: TokenStorage;
+  private accounts: AccountList | null;
+  private accountStorage: (userId: string) => TokenStorage;
+  private accountStorages = new Map<string, TokenStorage>();
+  private signInThrottle: SignInThrottle | null;
+  private telemetry: TelemetrySink;
+  private requestSequence = 0;
+  // The OAuth sign in whose callback hasn't arrived yet
+  private pendingOAuth: { provider: string; startedAt: number } | null = null;
+  // User ID of the active session; undefined until the stored token has been read
+  private accountId: string | null | undefined = undefined;
+  private transport: HttpTransport;
+  private retryPolicy: RetryPolicy;
+  private timeoutMs: number;
+  private cache: ResponseCache | null;
+  private connectivity: ConnectivityMonitor;
+  private mutationQueue: MutationQueue | null;
+  private mutationReplayedListeners = new Set<(outcome: MutationReplayOutcome) => void>();
+  private replaying: Promise<void> | null = null;
+  private connectivitySubscription: () => void;
+  // Background revalidations in flight, by cache key
+  private revalidations = new Map<string, Promise<void>>();
+  // GETs in flight, by method, URL and auth identity; see sendDeduped()
+  private inFlight = new Map<string, InFlightRequest>();
+  // Shared by every request that hits a 401 while a refresh is in flight
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredListeners = new Set<() => void>();
+  private tokenRefreshedListeners = new Set<(expiresAt: number | null) => void>();
+  private authState: AuthState = { status: 'unknown', user: null };
+  private authStateListeners = new Set<AuthStateListener>();
+  private tokenChangedListeners = new Set<TokenChangeListener>();
+  private sessionRestore: Promise<void> | null = null;
+  private cacheSubscription: () => void;
+  // Expiry of the stored access token; undefined until the token has been read
+  private accessTokenExpiry: number | null | undefined = undefined;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription;
+
+  constructor(options: StackAuthClientOptions) {
+    this.projectId = options.projectId;
+    this.publishableClientKey = options.publishableClientKey;
+    this.baseUrl = options.baseUrl || DEFAULT_STACK_BASE_URL;
+    this.serverProxyUrl = options.serverProxyUrl || '';
+    this.serverSecretKey = options.serverSecretKey || '';
+    this.oauthRedirectUri = options.oauthRedirectUri || '';
+    this.teamInvitationUrl = options.teamInvitationUrl || '';
+    this.magicLinkUrl = options.magicLinkUrl || '';
+    this.passwordResetUrl = options.passwordResetUrl || '';
+    this.emailVerificationUrl = options.emailVerificationUrl || '';
+    this.storage = options.storage ?? createDefaultTokenStorage(options.projectId);
+    this.accounts =
+      options.accounts !== undefined ? options.accounts : new AccountList(`@stack_auth:${options.projectId}:accounts`);
+    this.accountStorage = options.accountStorage ?? (userId => createAccountTokenStorage(options.projectId, userId));
+    this.signInThrottle =
+      options.signInThrottle !== undefined
+        ? options.signInThrottle
+        : new SignInThrottle(`@stack_auth:${options.projectId}:sign_in_attempts`);
+    this.telemetry = options.telemetry ?? noopTelemetrySink;
+    this.transport = options.transport ?? new FetchTransport();
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.cache =
+      options.cache !== undefined
+        ? options.cache
+        : new ResponseCache(new AsyncStorageCachePersistence(`@stack_auth:${options.projectId}:cache`));
+    this.connectivity = options.connectivity ?? new NetInfoConnectivityMonitor();
+    this.mutationQueue =
+      options.mutationQueue !== undefined
+        ? options.mutationQueue
+        : new MutationQueue(`@stack_auth:${options.projectId}:mutations`);
+    if (this.serverSecretKey && !__DEV__) {
+      throw new Error(
+        'The Stack server secret key must not be set in production builds. ' +
+          'Run the server proxy and set EXPO_PUBLIC_STACK_SERVER_PROXY_URL instead.'
+      );
     }
+    log.debug('Client created', {
+      baseUrl: this.baseUrl,
+      projectId: this.projectId,
+      serverAccess: this.serverProxyUrl ? 'proxy' : this.serverSecretKey ? 'secret key' : 'none',
+    });
+
+    // Timers don't fire while the app is suspended, so check again on resume
+    this.appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.refreshIfExpiringSoon();
+        this.replayQueuedMutations();
+      }
+    });
+    this.connectivitySubscription = this.connectivity.subscribe(online => {
+      if (online) this.replayQueuedMutations();
+    });
+    // Background revalidations of the current user surface as user_updated
+    this.cacheSubscription = this.onCacheUpdated(key => {
+      if (key !== 'users/me') return;
+      const user = this.cachedData(key, data => decodeUser(data));
+      if (user) this.updateUser(user);
+    });
+    // Edits queued before the app was last closed
+    this.replayQueuedMutations();
   }
 
-  static async setAccessToken(token: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(this.ACCESS_TOKEN_KEY, token);
-    } catch (error) {
-      console.error('Error setting access token:', error);
+  // Stops the refresh timer, AppState, connectivity and cache listeners
+  dispose(): void {
+    this.clearRefreshTimer();
+    this.appStateSubscription.remove();
+    this.connectivitySubscription();
+    this.cacheSubscription();
+  }
+
+  getAuthState(): AuthState {
+    return this.authState;
+  }
+
+  // Subscribe to sign in, sign out, forced sign out and changes to the signed-in
+  // user. The listener is not called with the current state; read that with
+  // getAuthState(), or call restoreSession() to settle it first.
+  onAuthStateChanged(listener: AuthStateListener): () => void {
+    this.authStateListeners.add(listener);
+    return () => {
+      this.authStateListeners.delete(listener);
+    };
+  }
+
+  // Subscribe to the access token changing: sign in, refresh, sign out and expiry
+  onTokenChanged(listener: TokenChangeListener): () => void {
+    this.tokenChangedListeners.add(listener);
+    return () => {
+      this.tokenChangedListeners.delete(listener);
+    };
+  }
+
+  // Checks the stored session once and settles the auth state, announcing it
+  // as initial_session. Later calls return the current state.
+  async restoreSession(): Promise<AuthState> {
+    if (!this.sessionRestore) {
+      this.sessionRestore = this.checkStoredSession().catch(error => {
+        log.error('Error checking stored session', { error });
+        if (this.authState.status === 'unknown') this.setAuthState(SIGNED_OUT, 'initial_session');
+      });
     }
+    await this.sessionRestore;
+    return this.authState;
   }
 
-  static async getRefreshToken(): Promise<string | null> {
-    try {
-      return await AsyncStorage.getItem(this.REFRESH_TOKEN_KEY);
-    } catch (error) {
-      console.error('Error getting refresh token:', error);
-      return null;
+  private async checkStoredSession(): Promise<void> {
+    if (this.authState.status !== 'unknown') return;
+    if (!(await this.hasStoredSession())) {
+      this.setAuthState(SIGNED_OUT, 'initial_session');
+      return;
+    }
+
+    const result = await this.getCurrentUser();
+    // A sign in, sign out or expired session while loading already settled it
+    if (this.authState.status !== 'unknown') return;
+    if (result.success) {
+      log.debug('Restored session', { userId: result.data.id });
+      // Sessions from before accounts were tracked join the list here
+      await this.accounts?.upsert(accountFromUser(result.data, this.accounts.get(result.data.id)?.lastUsedAt));
+      this.setAuthState({ status: 'signed_in', user: result.data }, 'initial_session');
+    } else if (isTransientError(result.error)) {
+      // A flaky connection is not a reason to sign the user out
+      log.info('Could not reach server, keeping stored session', { error: result.error });
+      this.setAuthState({ status: 'signed_in', user: null }, 'initial_session');
+    } else {
+      log.info('Could not restore session, clearing tokens', { error: result.error });
+      await this.endSession('initial_session');
     }
   }
 
-  static async setRefreshToken(token: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(this.REFRESH_TOKEN_KEY, token);
-    } catch (error) {
-      console.error('Error setting refresh token:', error);
+  private setAuthState(state: AuthState, event: AuthChangeEvent): void {
+    this.authState = state;
+    this.authStateListeners.forEach(listener => {
+      try {
+        listener(state, event);
+      } catch (error) {
+        log.error('Auth state listener failed', { error });
+      }
+    });
+  }
+
+  private updateUser(user: User): void {
+    if (this.authState.status !== 'signed_in') return;
+    if (JSON.stringify(user) === JSON.stringify(this.authState.user)) return;
+    const account = this.accounts?.get(user.id);
+    if (account) {
+      this.accounts?.upsert(accountFromUser(user, account.lastUsedAt));
     }
+    this.setAuthState({ status: 'signed_in', user }, 'user_updated');
   }
 
-  static async clearTokens(): Promise<void> {
-    try {
-      await AsyncStorage.multiRemove([this.ACCESS_TOKEN_KEY, this.REFRESH_TOKEN_KEY]);
-    } catch (error) {
-      console.error('Error clearing tokens:', error);
+  private notifyTokenChanged(change: TokenChange): void {
+    this.tokenChangedListeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        log.error('Token changed listener failed', { error });
+      }
+    });
+  }
+
+  isOnline(): boolean {
+    return this.connectivity.isOnline();
+  }
+
+  onConnectivityChanged(listener: (online: boolean) => void): () => void {
+    return this.connectivity.subscribe(listener);
+  }
+
+  // Edits queued by the active account
+  async getPendingMutations(): Promise<QueuedMutation[]> {
+    await Promise.all([this.mutationQueue?.ready(), this.getAccountId()]);
+    return this.mutationQueue?.list().filter(mutation => this.isActiveAccountMutation(mutation)) ?? [];
+  }
+
+  onPendingMutationsChanged(listener: (pending: QueuedMutation[]) => void): () => void {
+    return (
+      this.mutationQueue?.subscribe(pending => listener(pending.filter(mutation => this.isActiveAccountMutation(mutation)))) ??
+      (() => {})
+    );
+  }
+
+  // Mutations queued before accounts were tracked belong to whoever is signed in
+  private isActiveAccountMutation(mutation: QueuedMutation): boolean {
+    return !mutation.accountId || mutation.accountId === this.accountId;
+  }
+
+  // Accounts signed in on this device, most recently used first
+  async getAccounts(): Promise<Account[]> {
+    await this.accounts?.ready();
+    return this.accounts?.list() ?? [];
+  }
+
+  onAccountsChanged(listener: (accounts: Account[]) => void): () => void {
+    return this.accounts?.subscribe(listener) ?? (() => {});
+  }
+
+  // Makes another account signed in on this device the active one. The
+  // current account stays signed in and can be switched back to.
+  async switchAccount(userId: string): Promise<Result<void>> {
+    if (!this.accounts) {
+      return err({ kind: 'validation', message: 'Multiple accounts are not enabled' });
     }
+    await this.accounts.ready();
+    if (userId === (await this.getAccountId())) return ok(undefined);
+
+    const account = this.accounts.get(userId);
+    const saved = this.storageForAccount(userId);
+    const [accessToken, refreshToken] = await Promise.all([saved.getAccessToken(), saved.getRefreshToken()]);
+    if (!account || !refreshToken) {
+      return err({ kind: 'validation', message: 'That account is not signed in on this device' });
+    }
+
+    await this.setActiveSessionAside();
+    await this.storage.setRefreshToken(refreshToken);
+    if (accessToken) {
+      await this.storage.setAccessToken(accessToken);
+    }
+    await saved.clearTokens();
+    this.accountId = userId;
+    this.accessTokenExpiry = undefined;
+    const expiresAt = await this.getTokenExpiry();
+    this.notifyTokenChanged({ accessToken, expiresAt, reason: 'switched' });
+    log.info('Switched account', { userId });
+
+    // Served from the account's own cache when it has one
+    const user = await this.getCurrentUser();
+    // The saved session had expired; that has already been announced as session_expired
+    if (!user.success && this.accountId !== userId) {
+      return err(user.error);
+    }
+    await this.accounts.upsert({ ...(user.success ? accountFromUser(user.data) : account), lastUsedAt: Date.now() });
+    this.setAuthState({ status: 'signed_in', user: user.success ? user.data : null }, 'account_switched');
+    this.replayQueuedMutations();
+    return ok(undefined);
   }
-}
 
-// Stack Auth API client
-export class StackAuthClient {
-  private baseUrl: string;
-  private projectId: string;
-  private publishableClientKey: string;
-  private serverSecretKey: string;
+  // Sets the active account aside, still signed in, so another account can
+  // sign in. switchAccount() returns to it.
+  async addAccount(): Promise<void> {
+    if (!this.accounts) return;
+    await this.setActiveSessionAside();
+    this.setAuthState(SIGNED_OUT, 'account_switched');
+  }
+
+  // Moves the active session's tokens to its account storage, leaving no
+  // active session. Without multiple accounts the session is ended instead.
+  private async setActiveSessionAside(): Promise<void> {
+    if (this.refreshPromise) await this.refreshPromise;
+    const accountId = await this.getAccountId();
+    const [accessToken, refreshToken] = await Promise.all([this.storage.getAccessToken(), this.storage.getRefreshToken()]);
+    if (!accessToken && !refreshToken) return;
 
-  constructor() {
-    this.baseUrl = STACK_CONFIG.baseUrl || 'https://api.stack-auth.com';
-    this.projectId = STACK_CONFIG.projectId || '';
-    this.publishableClientKey = STACK_CONFIG.publishableClientKey || '';
-    this.serverSecretKey = STACK_CONFIG.serverSecretKey || '';
-    console.log('StackAuth: Constructor - serverSecretKey loaded:', this.serverSecretKey ? 'YES' : 'NO');
+    if (this.accounts && accountId) {
+      const saved = this.storageForAccount(accountId);
+      if (accessToken) await saved.setAccessToken(accessToken);
+      if (refreshToken) await saved.setRefreshToken(refreshToken);
+    } else {
+      await this.clearAccountData(accountId);
+    }
+    await this.storage.clearTokens();
+    this.clearRefreshTimer();
+    this.accessTokenExpiry = null;
+    this.accountId = null;
+    this.notifyTokenChanged({ accessToken: null, expiresAt: null, reason: 'switched' });
   }
 
-  private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
-    const accessToken = await StackTokenStorage.getAccessToken();
-    
+  private storageForAccount(userId: string): TokenStorage {
+    let storage = this.accountStorages.get(userId);
+    if (!storage) {
+      storage = this.accountStorage(userId);
+      this.accountStorages.set(userId, storage);
+    }
+    return storage;
+  }
+
+  // The user ID of the active session, taken from the access token
+  private async getAccountId(): Promise<string | null> {
+    if (this.accountId === undefined) {
+      const accessToken = await this.storage.getAccessToken();
+      this.accountId = accessToken ? getJwtSubject(accessToken) : null;
+    }
+    return this.accountId;
+  }
+
+  // Reports what happened to each queued mutation once it is replayed,
+  // including ones dropped because of a conflicting change on the server
+  onMutationReplayed(listener: (outcome: MutationReplayOutcome) => void): () => void {
+    this.mutationReplayedListeners.add(listener);
+    return () => {
+      this.mutationReplayedListeners.delete(listener);
+    };
+  }
+
+  // Subscribe to forced sign-outs caused by a refresh token the server no longer accepts
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  // Subscribe to successful token refreshes; receives the new expiry in epoch ms
+  onTokenRefreshed(listener: (expiresAt: number | null) => void): () => void {
+    this.tokenRefreshedListeners.add(listener);
+    return () => {
+      this.tokenRefreshedListeners.delete(listener);
+    };
+  }
+
+  // Expiry of the current access token in epoch ms, or null when signed out
+  // or when the token carries no `exp` claim
+  async getTokenExpiry(): Promise<number | null> {
+    if (this.accessTokenExpiry === undefined) {
+      const accessToken = await this.storage.getAccessToken();
+      this.accessTokenExpiry = accessToken ? getJwtExpiry(accessToken) : null;
+      this.scheduleRefresh();
+    }
+    return this.accessTokenExpiry;
+  }
+
+  private async isTokenExpiringSoon(): Promise<boolean> {
+    const expiresAt = await this.getTokenExpiry();
+    return expiresAt !== null && expiresAt - Date.now() <= TOKEN_REFRESH_MARGIN_MS;
+  }
+
+  private async refreshIfExpiringSoon(): Promise<void> {
+    if (await this.isTokenExpiringSoon()) {
+      await this.refreshAccessToken();
+    }
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private scheduleRefresh(): void {
+    this.clearRefreshTimer();
+    if (!this.accessTokenExpiry) return;
+
+    const delay = Math.max(0, this.accessTokenExpiry - TOKEN_REFRESH_MARGIN_MS - Date.now());
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshAccessToken();
+    }, delay);
+  }
+
+  private async saveAccessToken(accessToken: string, reason: 'signed_in' | 'refreshed'): Promise<void> {
+    await this.storage.setAccessToken(accessToken);
+    this.accessTokenExpiry = getJwtExpiry(accessToken);
+    this.scheduleRefresh();
+    this.notifyTokenChanged({ accessToken, expiresAt: this.accessTokenExpiry, reason });
+  }
+
+  // Forgets the local session without contacting the server
+  async clearSession(): Promise<void> {
+    await this.endSession('signed_out');
+  }
+
+  // Ends the active account's session. Other accounts stay signed in.
+  private async endSession(event: 'initial_session' | 'signed_out' | 'session_expired'): Promise<void> {
+    const hadSession = await this.hasStoredSession();
+    const accountId = await this.getAccountId();
+    this.clearRefreshTimer();
+    this.accessTokenExpiry = null;
+    await Promise.all([this.storage.clearTokens(), this.clearAccountData(accountId)]);
+    this.accountId = null;
+    if (hadSession) {
+      const reason = event === 'session_expired' ? 'session_expired' : 'signed_out';
+      this.notifyTokenChanged({ accessToken: null, expiresAt: null, reason });
+    }
+    if (this.authState.status !== 'signed_out') {
+      this.setAuthState(SIGNED_OUT, event);
+    }
+  }
+
+  // Drops the cached reads, queued edits and list entry of `accountId`
+  private async clearAccountData(accountId: string | null): Promise<void> {
+    await this.accounts?.ready();
+    const others = this.accounts?.list().filter(account => account.userId !== accountId) ?? [];
+    if (others.length === 0) {
+      await Promise.all([this.cache?.clear(), this.mutationQueue?.clear()]);
+    } else {
+      await this.cache?.ready();
+      const prefix = this.cachePrefix(accountId);
+      this.cache?.invalidate(key => (prefix ? key.startsWith(prefix) : !key.startsWith('@')));
+      await this.mutationQueue?.clear(mutation => (mutation.accountId ?? null) === accountId);
+    }
+    if (accountId) {
+      await this.accounts?.remove(accountId);
+    }
+  }
+
+  // Cache keys of a signed-in account carry its ID, so accounts never see
+  // each other's data. Keys without a prefix start with a path, never '@'.
+  private cachePrefix(accountId: string | null | undefined = this.accountId): string {
+    return accountId ? `@${accountId}:` : '';
+  }
+
+  private cacheKey(key: string): string {
+    return this.cachePrefix() + key;
+  }
+
+  // The key as the getters know it when `key` belongs to the active account, else null
+  private ownCacheKey(key: string): string | null {
+    const prefix = this.cachePrefix();
+    if (!prefix) return key.startsWith('@') ? null : key;
+    return key.startsWith(prefix) ? key.slice(prefix.length) : null;
+  }
+
+  // Subscribe to cached reads changing, either because a background
+  // revalidation brought new data or a mutation invalidated them. Re-reading
+  // through the getters afterwards is cheap: fresh entries don't hit the network.
+  // Only the active account's reads are reported.
+  onCacheUpdated(listener: (key: string) => void): () => void {
+    return (
+      this.cache?.subscribe(key => {
+        const ownKey = this.ownCacheKey(key);
+        if (ownKey !== null) listener(ownKey);
+      }) ?? (() => {})
+    );
+  }
+
+  // Headers every Stack API call carries; server access adds the secret key
+  private buildHeaders(accessType: AccessType, extra: Record<string, string> = {}): Record<string, string> {
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'X-Stack-Access-Type': 'client',
+      'X-Stack-Access-Type': accessType,
       'X-Stack-Project-Id': this.projectId,
       'X-Stack-Publishable-Client-Key': this.publishableClientKey,
-      ...options.headers as Record<string, string>,
+      ...extra,
     };
+    if (accessType === 'server') {
+      headers['X-Stack-Secret-Server-Key'] = this.serverSecretKey;
+    }
+    return headers;
+  }
+
+  // Records a telemetry event through the configured sink
+  track(event: TelemetryEventData): void {
+    emitTelemetry(this.telemetry, event);
+  }
+
+  private async send(endpoint: string, options: ClientRequest, headers: Record<string, string>): Promise<Response> {
+    const method = options.method || 'GET';
+    const request = { requestId: ++this.requestSequence, method, endpoint: telemetryEndpoint(endpoint) };
+    const startedAt = Date.now();
+    this.track({ type: 'request_started', ...request });
+    try {
+      const response = await this.transport.send({
+        url: joinUrl(options.baseUrl ?? this.baseUrl, endpoint),
+        method,
+        headers,
+        body: options.body,
+        signal: options.signal,
+      });
+      this.track({ type: 'request_finished', ...request, status: response.status, durationMs: Date.now() - startedAt });
+      return response;
+    } catch (error) {
+      this.track({
+        type: 'request_finished',
+        ...request,
+        status: null,
+        durationMs: Date.now() - startedAt,
+        errorKind: errorFromException(error, 'Request failed').kind,
+      });
+      throw error;
+    }
+  }
+
+  // Sends under the retry policy. Only idempotent requests are retried unless
+  // the caller opts in with `retry: true`, so a mutation is never applied twice
+  // behind the caller's back.
+  private async sendWithRetry(endpoint: string, options: ClientRequest, headers: Record<string, string>): Promise<Response> {
+    const retryable = options.retry ?? isIdempotentMethod(options.method || 'GET');
+    const maxAttempts = retryable ? this.retryPolicy.maxAttempts : 1;
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt + 1 >= maxAttempts;
+      let response: Response;
+      try {
+        response = await this.send(endpoint, options, headers);
+      } catch (error) {
+        // Network failure: nothing reached the server's response path
+        if (isLastAttempt || isAbortError(error)) throw error;
+        await sleep(getBackoffDelay(attempt, this.retryPolicy), options.signal);
+        continue;
+      }
+
+      const delay = isLastAttempt ? null : getRetryDelayForResponse(response, attempt, this.retryPolicy);
+      if (delay === null) return response;
+      log.info('Retrying request', { endpoint, status: response.status, delayMs: delay });
+      await sleep(delay, options.signal);
+    }
+  }
+
+  // Sends an authenticated request under the call's timeout and abort signal
+  private makeRequest(endpoint: string, options: ClientRequest = {}): Promise<Response> {
+    return withTimeout(options.timeoutMs ?? this.timeoutMs, options.signal, signal =>
+      this.sendAuthenticated(endpoint, { ...options, signal })
+    );
+  }
+
+  private async sendAuthenticated(endpoint: string, options: ClientRequest): Promise<Response> {
+    // Refresh ahead of expiry instead of waiting for a 401
+    if (!this.refreshPromise && await this.isTokenExpiringSoon()) {
+      await abortable(this.refreshAccessToken(), options.signal);
+    }
+    // Don't send a token that is about to be replaced
+    if (this.refreshPromise) {
+      await abortable(this.refreshPromise, options.signal);
+    }
+    const accessToken = await this.storage.getAccessToken();
+    
+    const headers = this.buildHeaders('client', options.headers);
+
+    // The API rejects a JSON content type on requests without a body
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
 
     if (accessToken) {
       headers['X-Stack-Access-Token'] = accessToken;
     }
 
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      ...options,
-      headers,
-    });
+    const response = await this.sendWithRetry(endpoint, options, headers);
 
     // Handle token refresh if access token is expired
-    if (response.status === 401) {
-      const refreshed = await this.refreshAccessToken();
+    if (response.status === 401 && accessToken) {
+      const refreshed = await abortable(this.refreshAccessToken(accessToken), options.signal);
       if (refreshed) {
         // Retry the request with new token
-        const newAccessToken = await StackTokenStorage.getAccessToken();
+        const newAccessToken = await this.storage.getAccessToken();
         if (newAccessToken) {
           headers['X-Stack-Access-Token'] = newAccessToken;
-          return fetch(`${this.baseUrl}${endpoint}`, {
-            ...options,
-            headers,
-          });
+          return this.sendWithRetry(endpoint, options, headers);
         }
       }
     }
@@ -111,127 +770,573 @@ export class StackAuthClient {
     return response;
   }
 
-  private async refreshAccessToken(): Promise<boolean> {
+  // Turns a response into a Result, decoding the body on success
+  private async toResult<T>(response: Response, decode: (data: unknown) => T, failureMessage: string): Promise<Result<T>> {
+    if (response.ok) {
+      // Some endpoints (mostly DELETEs) answer with an empty body
+      const text = await response.text();
+      return ok(decode(text ? JSON.parse(text) : null));
+    }
+    return err(await errorFromResponse(response, failureMessage));
+  }
+
+  // Sends a request through makeRequest and maps every outcome to a Result
+  private async request<T>(
+    endpoint: string,
+    options: ClientRequest,
+    decode: (data: unknown) => T,
+    failureMessage: string
+  ): Promise<Result<T>> {
+    if (!this.connectivity.isOnline()) {
+      return err({ kind: 'offline', message: failureMessage });
+    }
+    const accessToken = await this.storage.getAccessToken();
+    return this.sendDeduped(
+      `client:${accessToken ?? ''}`,
+      endpoint,
+      options,
+      opts => this.makeRequest(endpoint, opts),
+      decode,
+      failureMessage
+    );
+  }
+
+  // Identical GETs made while one is in flight (same URL, same `identity`)
+  // share its call and its result; each caller decodes it on its own. The
+  // first caller's timeout applies. A caller that aborts gets `aborted` right
+  // away, and the call itself is aborted once no caller is left.
+  private async sendDeduped<T>(
+    identity: string,
+    endpoint: string,
+    options: ClientRequest,
+    send: (options: ClientRequest) => Promise<Response>,
+    decode: (data: unknown) => T,
+    failureMessage: string
+  ): Promise<Result<T>> {
+    if ((options.method || 'GET').toUpperCase() !== 'GET') {
+      // GETs sent before this write may miss it, so later ones don't join them
+      this.inFlight.clear();
+      return this.sendForResult(endpoint, () => send(options), decode, failureMessage);
+    }
+
+    const key = `GET ${joinUrl(options.baseUrl ?? this.baseUrl, endpoint)} ${identity}`;
+    let shared = this.inFlight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        waiters: 0,
+        promise: this.sendForResult(endpoint, () => send({ ...options, signal: controller.signal }), data => data, failureMessage)
+          .finally(() => {
+            if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+          }),
+      };
+      this.inFlight.set(key, created);
+      shared = created;
+    } else {
+      log.debug('Joining identical request in flight', { endpoint });
+    }
+
+    const call = shared;
+    call.waiters++;
     try {
-      const refreshToken = await StackTokenStorage.getRefreshToken();
-      if (!refreshToken) return false;
+      return this.decodeResult(await abortable(call.promise, options.signal), decode, failureMessage);
+    } catch (error) {
+      // Only this caller's abort gets here; the shared call never rejects
+      return err(errorFromException(error, failureMessage));
+    } finally {
+      call.waiters--;
+      if (call.waiters === 0) {
+        if (this.inFlight.get(key) === call) this.inFlight.delete(key);
+        call.controller.abort();
+      }
+    }
+  }
 
-      const response = await fetch(`${this.baseUrl}/auth/sessions/current/refresh`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Stack-Access-Type': 'client',
-          'X-Stack-Project-Id': this.projectId,
-          'X-Stack-Publishable-Client-Key': this.publishableClientKey,
-          'X-Stack-Refresh-Token': refreshToken,
-        },
+  // Sends through `send` and maps every outcome to a Result
+  private async sendForResult<T>(
+    endpoint: string,
+    send: () => Promise<Response>,
+    decode: (data: unknown) => T,
+    failureMessage: string
+  ): Promise<Result<T>> {
+    try {
+      const response = await send();
+      return await this.toResult(response, decode, failureMessage);
+    } catch (error) {
+      const stackError = errorFromException(error, failureMessage);
+      if (stackError.kind !== 'aborted') {
+        log.error(failureMessage, { endpoint, error });
+      }
+      return err(stackError);
+    }
+  }
+
+  // Stale-while-revalidate read. A cached payload is returned immediately;
+  // once it is older than `ttlMs` it is also refetched in the background.
+  // Without a usable entry the read goes to the network and fills the cache.
+  private async cachedRequest<T>(
+    key: string,
+    ttlMs: number,
+    options: RequestOptions,
+    load: (options: RequestOptions) => Promise<Result<unknown>>,
+    decode: (data: unknown) => T
+  ): Promise<Result<T>> {
+    const cache = this.cache;
+    if (!cache) return this.decodeResult(await load(options), decode);
+
+    await Promise.all([cache.ready(), this.getAccountId()]);
+    const scopedKey = this.cacheKey(key);
+    if (options.cache !== 'reload') {
+      const entry = cache.get(scopedKey);
+      if (entry) {
+        try {
+          const data = decode(entry.payload);
+          if (cache.ageOf(scopedKey) >= ttlMs && this.connectivity.isOnline()) {
+            this.revalidate(scopedKey, load);
+          }
+          return ok(data);
+        } catch (error) {
+          log.warn('Dropping cache entry that no longer decodes', { key, error });
+          cache.invalidate(candidate => candidate === scopedKey);
+        }
+      }
+    }
+
+    const result = await load(options);
+    // Not if the account changed while loading
+    if (result.success && this.cacheKey(key) === scopedKey) {
+      cache.set(scopedKey, result.data);
+    }
+    return this.decodeResult(result, decode);
+  }
+
+  private decodeResult<T>(
+    result: Result<unknown>,
+    decode: (data: unknown) => T,
+    failureMessage: string = 'Unexpected response from server'
+  ): Result<T> {
+    if (!result.success) return result;
+    try {
+      return ok(decode(result.data));
+    } catch (error) {
+      log.error(failureMessage, { error });
+      return err(errorFromException(error, failureMessage));
+    }
+  }
+
+  // Loads every page of a list endpoint into one `{ items }` payload, the
+  // shape decodeList reads and the cache stores
+  private async loadAllPages(
+    endpoint: string,
+    load: (pageEndpoint: string) => Promise<Result<unknown>>
+  ): Promise<Result<{ items: unknown[] }>> {
+    const items = await collectPages(async cursor =>
+      this.decodeResult(await load(withPageParams(endpoint, { cursor })), data => decodePage(data, item => item))
+    );
+    return items.success ? ok({ items: items.data }) : items;
+  }
+
+  // `key` is the account-scoped cache key
+  private revalidate(key: string, load: (options: RequestOptions) => Promise<Result<unknown>>): void {
+    if (this.revalidations.has(key)) return;
+    const prefix = this.cachePrefix();
+    const revalidation = load({})
+      .then(result => {
+        if (this.cachePrefix() !== prefix) return;
+        if (result.success) {
+          this.cache?.set(key, result.data);
+        } else if (!isTransientError(result.error)) {
+          // Gone or no longer accessible: don't keep serving the old copy
+          this.cache?.invalidate(candidate => candidate === key);
+        }
+      })
+      .finally(() => {
+        this.revalidations.delete(key);
       });
+    this.revalidations.set(key, revalidation);
+  }
+
+  // Drops cached reads that a mutation of `teamId` may have changed. Ids are
+  // matched whole, so a team whose id starts with `teamId` keeps its reads.
+  private invalidateTeam(teamId: string): void {
+    const teamPath = `teams/${teamId}`;
+    this.cache?.invalidate(candidate => {
+      const key = this.ownCacheKey(candidate);
+      return (
+        key !== null &&
+        (key.startsWith('teams?') ||
+          key === teamPath ||
+          key.startsWith(`${teamPath}/`) ||
+          key.startsWith(`${teamPath}?`) ||
+          key.startsWith(`team-member-profiles/${teamId}/`) ||
+          key.split(/[?&]/).includes(`team_id=${teamId}`))
+      );
+    });
+  }
+
+  // Refreshes the access token at most once at a time. `rejectedToken` is the
+  // token that got a 401; if another request already replaced it, the caller
+  // can replay straight away.
+  private async refreshAccessToken(rejectedToken?: string): Promise<boolean> {
+    if (!this.refreshPromise) {
+      const currentToken = await this.storage.getAccessToken();
+      if (rejectedToken && currentToken && currentToken !== rejectedToken) {
+        return true;
+      }
+    }
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<boolean> {
+    try {
+      const refreshToken = await this.storage.getRefreshToken();
+      if (!refreshToken) {
+        this.track({ type: 'token_refresh_failed', reason: 'no_refresh_token' });
+        await this.expireSession();
+        return false;
+      }
+
+      // Every authenticated request waits on this refresh, so a hung one must
+      // not keep it pending; a timeout counts as a network failure
+      const response = await withTimeout(this.timeoutMs, undefined, signal =>
+        this.send(
+          'auth/sessions/current/refresh',
+          { method: 'POST', signal },
+          this.buildHeaders('client', { 'X-Stack-Refresh-Token': refreshToken })
+        )
+      );
 
       if (response.ok) {
-        const data = await response.json();
-        await StackTokenStorage.setAccessToken(data.access_token);
+        await this.saveAccessToken(decodeRefreshedAccessToken(await response.json()), 'refreshed');
+        this.tokenRefreshedListeners.forEach(listener => {
+          try {
+            listener(this.accessTokenExpiry ?? null);
+          } catch (error) {
+            log.error('Token refreshed listener failed', { error });
+          }
+        });
         return true;
       }
+
+      // The refresh token was rejected; the session cannot be recovered
+      if (response.status === 401 || response.status === 400) {
+        this.track({ type: 'token_refresh_failed', reason: 'rejected', status: response.status });
+        await this.expireSession();
+      } else {
+        this.track({ type: 'token_refresh_failed', reason: 'server_error', status: response.status });
+      }
     } catch (error) {
-      console.error('Error refreshing token:', error);
+      // Network failures and malformed answers leave the session in place so
+      // it can be retried later
+      log.warn('Token refresh failed', { error });
+      this.track({ type: 'token_refresh_failed', reason: error instanceof StackAuthDecodeError ? 'server_error' : 'network' });
     }
     return false;
   }
 
-  async signInWithPassword(email: string, password: string): Promise<{ success: boolean; error?: string; user_id?: string }> {
-    console.log('StackAuth: signInWithPassword called with email:', email);
-    console.log('StackAuth: Using baseUrl:', this.baseUrl);
-    console.log('StackAuth: Using projectId:', this.projectId);
-    
+  private async expireSession(): Promise<void> {
+    await this.endSession('session_expired');
+    this.sessionExpiredListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        log.error('Session expired listener failed', { error });
+      }
+    });
+  }
+
+  // Stores the tokens of a new session, then loads its user and announces it.
+  // A different account that was signed in stays signed in, set aside.
+  private async startSession(tokens: SessionTokens): Promise<void> {
+    const accountId = getJwtSubject(tokens.accessToken) || tokens.userId;
+    if (accountId !== (await this.getAccountId())) {
+      await this.setActiveSessionAside();
+    }
+    // Whatever another session of this account left behind is replaced
+    if (accountId) {
+      await this.storageForAccount(accountId).clearTokens();
+    }
+    this.accountId = accountId;
+    await this.storage.setRefreshToken(tokens.refreshToken);
+    await this.saveAccessToken(tokens.accessToken, 'signed_in');
+    const user = await this.getCurrentUser({ cache: 'reload' });
+    if (user.success) {
+      await this.accounts?.upsert(accountFromUser(user.data));
+    } else {
+      log.warn('Could not load the user of the new session', { error: user.error });
+      if (accountId) await this.accounts?.upsert({ ...this.accounts.get(accountId), userId: accountId, lastUsedAt: Date.now() });
+    }
+    this.setAuthState({ status: 'signed_in', user: user.success ? user.data : null }, 'signed_in');
+  }
+
+  // Fails with `rate_limited` (with retryAfterMs) when the server rate limits
+  // the attempt, or without sending anything while `email` is locked out
+  // after repeated wrong passwords; see getSignInLockout()
+  async signInWithPassword(email: string, password: string, options: RequestOptions = {}): Promise<Result<{ userId: string }>> {
+    return this.trackAuthAttempt('sign_in', 'password', () => this.passwordSignIn(email, password, options));
+  }
+
+  private async passwordSignIn(email: string, password: string, options: RequestOptions): Promise<Result<{ userId: string }>> {
+    log.debug('Signing in with password');
+    const lockoutMs = await this.getSignInLockout(email);
+    if (lockoutMs > 0) {
+      log.info('Sign in locked out', { retryAfterMs: lockoutMs });
+      return err({ kind: 'rate_limited', message: 'Too many sign in attempts', retryAfterMs: lockoutMs });
+    }
     try {
-      const requestBody = { email, password };
-      console.log('StackAuth: Request body:', requestBody);
-      
       const response = await this.makeRequest('auth/password/sign-in', {
+        ...options,
         method: 'POST',
-        body: JSON.stringify(requestBody),
+        body: JSON.stringify({ email, password }),
       });
 
-      console.log('StackAuth: Response status:', response.status);
-      console.log('StackAuth: Response headers:', Object.fromEntries(response.headers.entries()));
-
       if (response.ok) {
-        const data = await response.json();
-        console.log('StackAuth: Response data:', data);
-        
-        if (data.access_token) {
-           console.log('StackAuth: Sign in successful, storing tokens');
-           await StackTokenStorage.setAccessToken(data.access_token);
-         }
-         if (data.refresh_token) {
-           await StackTokenStorage.setRefreshToken(data.refresh_token);
-         }
-         return { success: true, user_id: data.user_id };
-      } else {
-        const errorData = await response.json();
-        console.log('StackAuth: Sign in failed:', errorData.message || 'Unknown error');
-        return { success: false, error: errorData.message || 'Sign in failed' };
+        const tokens = decodeSessionTokens(await response.json());
+        await this.signInThrottle?.recordSuccess(email);
+        await this.startSession(tokens);
+        log.info('Signed in with password', { userId: tokens.userId });
+        return ok({ userId: tokens.userId });
+      }
+
+      const error = await errorFromResponse(response, 'Sign in failed');
+      log.warn('Sign in failed', { error });
+      if (error.kind === 'rate_limited') {
+        await this.signInThrottle?.recordRateLimit(email, error.retryAfterMs);
+        return err({ ...error, retryAfterMs: error.retryAfterMs ?? ((await this.getSignInLockout(email)) || undefined) });
+      }
+      if (hasStackErrorCode(error, 'EMAIL_PASSWORD_MISMATCH')) {
+        await this.signInThrottle?.recordFailure(email);
       }
+      return err(error);
     } catch (error) {
-      console.error('StackAuth: Sign in error:', error);
-      return { success: false, error: 'Network error' };
+      log.error('Sign in error', { error });
+      return err(errorFromException(error, 'Network error'));
     }
   }
 
-  async signUpWithPassword(email: string, password: string): Promise<{ success: boolean; error?: string }> {
+  // Milliseconds until `email` may try a password sign in again, or 0
+  async getSignInLockout(email: string): Promise<number> {
+    return (await this.signInThrottle?.getLockout(email)) ?? 0;
+  }
+
+  async signUpWithPassword(email: string, password: string, options: RequestOptions = {}): Promise<Result<void>> {
+    return this.trackAuthAttempt('sign_up', 'password', () => this.passwordSignUp(email, password, options));
+  }
+
+  private async passwordSignUp(email: string, password: string, options: RequestOptions): Promise<Result<void>> {
     try {
       const response = await this.makeRequest('auth/password/sign-up', {
+        ...options,
         method: 'POST',
         body: JSON.stringify({ email, password }),
       });
 
       if (response.ok) {
-        const data = await response.json();
-        if (data.access_token) {
-          await StackTokenStorage.setAccessToken(data.access_token);
-        }
-        if (data.refresh_token) {
-          await StackTokenStorage.setRefreshToken(data.refresh_token);
-        }
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.message || 'Sign up failed' };
+        await this.startSession(decodeSessionTokens(await response.json()));
+        return ok(undefined);
       }
+      return err(await errorFromResponse(response, 'Sign up failed'));
     } catch (error) {
-      return { success: false, error: 'Network error' };
+      return err(errorFromException(error, 'Network error'));
+    }
+  }
+
+  // Emails `email` a one-time sign-in code and a magic link to `callbackUrl`.
+  // Keep the nonce: a code the user types in is only valid together with it.
+  async sendSignInCode(
+    email: string,
+    callbackUrl: string = this.magicLinkUrl,
+    options: RequestOptions = {}
+  ): Promise<Result<{ nonce: string }>> {
+    if (!callbackUrl) {
+      return err({ kind: 'validation', message: 'No magic link URL is configured' });
     }
+    const result = await this.request(
+      'auth/otp/send-sign-in-code',
+      { ...options, method: 'POST', body: JSON.stringify({ email, callback_url: callbackUrl }) },
+      data => ({ nonce: decodeSignInCodeNonce(data) }),
+      'Failed to send sign-in code'
+    );
+    if (!result.success) log.warn('Sending sign-in code failed', { error: result.error });
+    return result;
+  }
+
+  // Signs in with the code from a sign-in email: the whole code a magic link
+  // carries, or the code the user typed plus the nonce from sendSignInCode.
+  // An email without an account signs up.
+  async signInWithCode(
+    code: string,
+    nonce: string = '',
+    options: RequestOptions = {}
+  ): Promise<Result<{ userId: string; isNewUser: boolean }>> {
+    // Typed codes are case-insensitive; a magic link's code is used as is
+    const fullCode = nonce ? `${code.trim().toUpperCase()}${nonce}` : code.trim();
+    return this.trackAuthAttempt('sign_in', 'otp', () => this.otpSignIn(fullCode, options));
   }
 
-  async getAvailableOAuthProviders(): Promise<{ success: boolean; providers?: string[]; error?: string }> {
-    console.log('StackAuth: getAvailableOAuthProviders called');
+  private async otpSignIn(code: string, options: RequestOptions): Promise<Result<{ userId: string; isNewUser: boolean }>> {
+    log.debug('Signing in with one-time code');
     try {
-      const response = await this.makeRequest('projects/current');
-      console.log('StackAuth: getAvailableOAuthProviders response status:', response.status);
-      
+      const response = await this.makeRequest('auth/otp/sign-in', {
+        ...options,
+        method: 'POST',
+        body: JSON.stringify({ code }),
+      });
+
       if (response.ok) {
-        const data = await response.json();
-        console.log('StackAuth: Project data:', data);
-        
-        // Extract OAuth providers from project configuration
-        const enabledOAuthProviders = data.config?.enabled_oauth_providers || [];
-        const enabledProviders = enabledOAuthProviders.map((provider: any) => provider.id);
-        
-        console.log('StackAuth: Available OAuth providers:', enabledProviders);
-        return { success: true, providers: enabledProviders };
-      } else {
-        const errorData = await response.json();
-        console.log('StackAuth: getAvailableOAuthProviders failed:', errorData);
-        return { success: false, error: errorData.message || 'Failed to fetch OAuth providers' };
+        const { isNewUser, ...tokens } = decodeCodeSignIn(await response.json());
+        await this.startSession(tokens);
+        log.info('Signed in with one-time code', { userId: tokens.userId });
+        return ok({ userId: tokens.userId, isNewUser });
       }
+
+      const error = await errorFromResponse(response, 'Sign in failed');
+      log.warn('One-time code sign in failed', { error });
+      return err(error);
     } catch (error) {
-      console.error('StackAuth: Error getting OAuth providers:', error);
-      return { success: false, error: 'Network error' };
+      log.error('One-time code sign in error', { error });
+      return err(errorFromException(error, 'Network error'));
+    }
+  }
+
+  // Emails a password reset link to `callbackUrl`. Succeeds whether or not
+  // `email` has an account, so it can't be used to probe for accounts.
+  async sendPasswordResetEmail(
+    email: string,
+    callbackUrl: string = this.passwordResetUrl,
+    options: RequestOptions = {}
+  ): Promise<Result<void>> {
+    if (!callbackUrl) {
+      return err({ kind: 'validation', message: 'No password reset URL is configured' });
+    }
+    return this.request(
+      'auth/password/send-reset-code',
+      { ...options, method: 'POST', body: JSON.stringify({ email, callback_url: callbackUrl }) },
+      () => undefined,
+      'Failed to send password reset email'
+    );
+  }
+
+  // Checks the code from a reset link before asking for a new password;
+  // fails with VERIFICATION_CODE_NOT_FOUND, _EXPIRED or _ALREADY_USED
+  async verifyPasswordResetCode(code: string, options: RequestOptions = {}): Promise<Result<void>> {
+    return this.request(
+      'auth/password/reset/check-code',
+      { ...options, method: 'POST', body: JSON.stringify({ code }) },
+      () => undefined,
+      'Failed to check password reset code'
+    );
+  }
+
+  // Sets a new password with the code from a reset link. The user still
+  // signs in afterwards.
+  async resetPassword(code: string, password: string, options: RequestOptions = {}): Promise<Result<void>> {
+    const result = await this.request(
+      'auth/password/reset',
+      { ...options, method: 'POST', body: JSON.stringify({ code, password }) },
+      () => undefined,
+      'Failed to reset password'
+    );
+    if (result.success) {
+      log.info('Password reset');
+    } else {
+      log.warn('Password reset failed', { error: result.error });
     }
+    return result;
   }
 
-  async signInWithOAuth(provider: string, redirectUri: string = process.env.EXPO_PUBLIC_OAUTH_REDIRECT_URI || 'https://guard.bootserp.com//api/oauthforapp'): Promise<{ success: boolean; authUrl?: string; error?: string }> {
-    console.log('StackAuth: signInWithOAuth called with provider:', provider);
+  // Emails the signed-in user a link to verify their primary email. Fails
+  // with EMAIL_ALREADY_VERIFIED once it is.
+  async sendVerificationEmail(
+    callbackUrl: string = this.emailVerificationUrl,
+    options: RequestOptions = {}
+  ): Promise<Result<void>> {
+    if (!callbackUrl) {
+      return err({ kind: 'validation', message: 'No email verification URL is configured' });
+    }
+    const user = await this.getCurrentUser(options);
+    if (!user.success) return user;
+    if (!user.data.email) {
+      return err({ kind: 'validation', message: 'The user has no email address to verify' });
+    }
+    return this.request(
+      'contact-channels/send-verification-code',
+      { ...options, method: 'POST', body: JSON.stringify({ email: user.data.email, callback_url: callbackUrl }) },
+      () => undefined,
+      'Failed to send verification email'
+    );
+  }
+
+  // Verifies an email with the code from a verification link. Works signed
+  // out too; when signed in, the user is reloaded so the change shows up as
+  // user_updated.
+  async verifyEmail(code: string, options: RequestOptions = {}): Promise<Result<void>> {
+    const result = await this.request(
+      'contact-channels/verify',
+      { ...options, method: 'POST', body: JSON.stringify({ code }) },
+      () => undefined,
+      'Failed to verify email'
+    );
+    if (!result.success) {
+      log.warn('Email verification failed', { error: result.error });
+      return result;
+    }
+    log.info('Email verified');
+    if (this.authState.status === 'signed_in') {
+      await this.getCurrentUser({ ...options, cache: 'reload' });
+    }
+    return result;
+  }
+
+  // Surrounds a sign in or sign up with its attempted and completed events
+  private async trackAuthAttempt<T>(
+    flow: 'sign_in' | 'sign_up',
+    method: AuthMethod,
+    attempt: () => Promise<Result<T>>
+  ): Promise<Result<T>> {
+    this.abandonPendingOAuth();
+    this.track(flow === 'sign_in' ? { type: 'sign_in_attempted', method } : { type: 'sign_up_attempted', method });
+    const startedAt = Date.now();
+    const result = await attempt();
+    const outcome = {
+      method,
+      success: result.success,
+      durationMs: Date.now() - startedAt,
+      ...(result.success ? {} : failureFields(result.error)),
+    };
+    this.track(flow === 'sign_in' ? { type: 'sign_in_completed', ...outcome } : { type: 'sign_up_completed', ...outcome });
+    return result;
+  }
+
+  private abandonPendingOAuth(): void {
+    if (!this.pendingOAuth) return;
+    const { provider, startedAt } = this.pendingOAuth;
+    this.pendingOAuth = null;
+    this.track({ type: 'oauth_abandoned', provider, durationMs: Date.now() - startedAt });
+  }
+
+  async getAvailableOAuthProviders(options: RequestOptions = {}): Promise<Result<string[]>> {
+    // Extract OAuth providers from project configuration
+    return this.cachedRequest(
+      'projects/current',
+      CACHE_TTL_MS.project,
+      options,
+      opts => this.request('projects/current', opts, data => data, 'Failed to fetch OAuth providers'),
+      decodeOAuthProviders
+    );
+  }
+
+  async signInWithOAuth(provider: string, redirectUri: string = this.oauthRedirectUri): Promise<Result<{ authUrl: string }>> {
+    if (!redirectUri) {
+      return err({ kind: 'validation', message: 'No OAuth redirect URI is configured' });
+    }
+    log.debug('Starting OAuth sign in', { provider });
     try {
       // Generate PKCE parameters
       const codeVerifier = this.generateCodeVerifier();
@@ -239,8 +1344,8 @@ export class StackAuthClient {
       const state = this.generateState();
       
       // Store PKCE parameters for later use
-      await AsyncStorage.setItem('@oauth_code_verifier', codeVerifier);
-      await AsyncStorage.setItem('@oauth_state', state);
+      await AsyncStorage.setItem(this.oauthStorageKey('code_verifier'), codeVerifier);
+      await AsyncStorage.setItem(this.oauthStorageKey('state'), state);
       
       // Build OAuth authorization URL - matching successful web app configuration
       const params = new URLSearchParams({
@@ -257,33 +1362,47 @@ export class StackAuthClient {
         error_redirect_url: redirectUri
       });
       
-      const authUrl = `${this.baseUrl}/auth/oauth/authorize/${provider}?${params.toString()}`;
-      console.log('StackAuth: OAuth authorization URL:', authUrl);
-      
-      return { success: true, authUrl };
+      const authUrl = `${joinUrl(this.baseUrl, `auth/oauth/authorize/${provider}`)}?${params.toString()}`;
+
+      this.abandonPendingOAuth();
+      this.pendingOAuth = { provider, startedAt: Date.now() };
+      this.track({ type: 'oauth_started', provider });
+      return ok({ authUrl });
     } catch (error) {
-      console.error('StackAuth: Error initiating OAuth:', error);
-      return { success: false, error: 'Failed to initiate OAuth flow' };
+      log.error('Error initiating OAuth', { provider, error });
+      return err(errorFromException(error, 'Failed to initiate OAuth flow'));
     }
   }
 
-  async handleOAuthCallback(code: string, state: string): Promise<{ success: boolean; error?: string }> {
-    console.log('StackAuth: handleOAuthCallback called with code:', code, 'state:', state);
+  async handleOAuthCallback(code: string, state: string, options: RequestOptions = {}): Promise<Result<void>> {
+    const pending = this.pendingOAuth;
+    this.pendingOAuth = null;
+    const result = await this.exchangeOAuthCode(code, state, options);
+    this.track({
+      type: 'oauth_completed',
+      provider: pending?.provider,
+      success: result.success,
+      durationMs: pending ? Date.now() - pending.startedAt : undefined,
+      ...(result.success ? {} : failureFields(result.error)),
+    });
+    return result;
+  }
+
+  private async exchangeOAuthCode(code: string, state: string, options: RequestOptions): Promise<Result<void>> {
+    log.debug('Handling OAuth callback');
     try {
       // Verify state parameter
-      const storedState = await AsyncStorage.getItem('@oauth_state');
-      console.log('StackAuth: Stored state:', storedState, 'Received state:', state);
+      const storedState = await AsyncStorage.getItem(this.oauthStorageKey('state'));
       if (state !== storedState) {
-        console.error('StackAuth: State mismatch - stored:', storedState, 'received:', state);
-        return { success: false, error: 'Invalid state parameter' };
+        log.warn('OAuth state mismatch', { hasStoredState: !!storedState });
+        return err({ kind: 'validation', message: 'Invalid state parameter' });
       }
       
       // Get stored code verifier
-      const codeVerifier = await AsyncStorage.getItem('@oauth_code_verifier');
-      console.log('StackAuth: Code verifier found:', !!codeVerifier);
+      const codeVerifier = await AsyncStorage.getItem(this.oauthStorageKey('code_verifier'));
       if (!codeVerifier) {
-        console.error('StackAuth: Missing code verifier');
-        return { success: false, error: 'Missing code verifier' };
+        log.warn('Missing OAuth code verifier');
+        return err({ kind: 'validation', message: 'Missing code verifier' });
       }
       
       // Exchange authorization code for tokens
@@ -293,54 +1412,39 @@ export class StackAuthClient {
         code_verifier: codeVerifier,
         client_id: this.projectId,
         client_secret: this.publishableClientKey,
-        redirect_uri: process.env.EXPO_PUBLIC_OAUTH_REDIRECT_URI
+        redirect_uri: this.oauthRedirectUri
       };
-      console.log('StackAuth: Token exchange request body:', requestBody);
       
-      console.log('StackAuth: Making token exchange request to:', `${this.baseUrl}/auth/oauth/token`);
-      
-      const response = await Promise.race([
-        this.makeRequest('auth/oauth/token', {
-          method: 'POST',
-          body: JSON.stringify(requestBody)
-        }),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Request timeout after 30 seconds')), 30000)
-        )
-      ]) as Response;
-      
-      console.log('StackAuth: Token exchange response status:', response.status);
-      console.log('StackAuth: Token exchange response headers:', Object.fromEntries(response.headers.entries()));
+      const response = await this.makeRequest('auth/oauth/token', {
+        ...options,
+        method: 'POST',
+        body: JSON.stringify(requestBody)
+      });
       
       if (response.ok) {
-        const data = await response.json();
-        console.log('StackAuth: Token exchange response data:', data);
-        
-        if (data.access_token) {
-          console.log('StackAuth: Storing access token');
-          await StackTokenStorage.setAccessToken(data.access_token);
-        }
-        if (data.refresh_token) {
-          console.log('StackAuth: Storing refresh token');
-          await StackTokenStorage.setRefreshToken(data.refresh_token);
-        }
+        await this.startSession(decodeSessionTokens(await response.json()));
         
         // Clean up stored OAuth parameters
-        await AsyncStorage.multiRemove(['@oauth_code_verifier', '@oauth_state']);
-        console.log('StackAuth: OAuth callback completed successfully');
+        await AsyncStorage.multiRemove([this.oauthStorageKey('code_verifier'), this.oauthStorageKey('state')]);
+        log.info('OAuth sign in completed');
         
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        console.error('StackAuth: Token exchange failed:', errorData);
-        return { success: false, error: errorData.message || 'OAuth token exchange failed' };
+        return ok(undefined);
       }
+
+      const error = await errorFromResponse(response, 'OAuth token exchange failed');
+      log.warn('OAuth token exchange failed', { error });
+      return err(error);
     } catch (error) {
-      console.error('StackAuth: Error handling OAuth callback:', error);
-      return { success: false, error: 'OAuth callback handling failed' };
+      log.error('Error handling OAuth callback', { error });
+      return err(errorFromException(error, 'OAuth callback handling failed'));
     }
   }
 
+  // PKCE values are kept per project so clients for different projects don't collide
+  private oauthStorageKey(name: 'code_verifier' | 'state'): string {
+    return `@stack_auth:${this.projectId}:oauth_${name}`;
+  }
+
   private generateCodeVerifier(): string {
     const randomBytes = Crypto.getRandomBytes(32);
     return btoa(String.fromCharCode.apply(null, Array.from(randomBytes)))
@@ -366,417 +1470,490 @@ export class StackAuthClient {
       .replace(/=/g, '');
   }
 
-  async getCurrentUser(): Promise<any> {
-    console.log('StackAuth: getCurrentUser called');
-    try {
-      console.log('StackAuth: Making request to /users/me');
-      const response = await this.makeRequest('users/me');
-      console.log('StackAuth: getCurrentUser response status:', response.status);
-      
-      if (response.ok) {
-        const apiData = await response.json();
-        console.log('StackAuth: getCurrentUser response data:', apiData);
-        
-        // Map API response to our User interface
-        const userData = {
-          id: apiData.id,
-          email: apiData.primary_email,
-          displayName: apiData.display_name || apiData.primary_email?.split('@')[0],
-          profile_image_url: apiData.profile_image_url
-        };
-        
-        console.log('StackAuth: Mapped user data:', userData);
-        return userData;
-      } else {
-        const errorData = await response.json();
-        console.log('StackAuth: getCurrentUser failed:', errorData);
-      }
-    } catch (error) {
-      console.error('StackAuth: Error getting current user:', error);
-    }
-    return null;
+  async getCurrentUser(options: RequestOptions = {}): Promise<Result<User>> {
+    // Map API response to our User interface
+    const result = await this.cachedRequest(
+      'users/me',
+      CACHE_TTL_MS.user,
+      options,
+      opts => this.request('users/me', opts, data => data, 'Failed to fetch current user'),
+      data => decodeUser(data)
+    );
+    if (result.success) this.updateUser(result.data);
+    return result;
   }
 
-  async getTeamPermissions(teamId: string, userId: string = 'me'): Promise<{ success: boolean; permissions?: any[]; error?: string }> {
-    console.log('StackAuth: getTeamPermissions called with teamId:', teamId, 'userId:', userId);
-    try {
-      const response = await this.makeRequest(`/team-permissions?team_id=${teamId}&user_id=${userId}`);
-      console.log('StackAuth: getTeamPermissions response status:', response.status);
-      
-      if (response.ok) {
-        const data = await response.json();
-        console.log('StackAuth: getTeamPermissions response data:', data);
-        return { success: true, permissions: data.items || [] };
-      } else {
-        const errorData = await response.json();
-        console.log('StackAuth: getTeamPermissions failed:', errorData);
-        return { success: false, error: errorData.error || 'Failed to fetch permissions' };
-      }
-    } catch (error) {
-      console.error('StackAuth: Error fetching team permissions:', error);
-      return { success: false, error: 'Network error while fetching permissions' };
-    }
+  async getTeamPermissions(teamId: string, userId: string = 'me', options: RequestOptions = {}): Promise<Result<TeamPermission[]>> {
+    const endpoint = `team-permissions?team_id=${teamId}&user_id=${userId}`;
+    return this.cachedRequest(
+      endpoint,
+      CACHE_TTL_MS.permissions,
+      options,
+      opts => this.request(endpoint, opts, data => data, 'Failed to fetch permissions'),
+      data => decodeList(data, decodeTeamPermission)
+    );
   }
 
-  async getTeamMemberProfiles(teamId: string): Promise<{ success: boolean; profiles?: any[]; error?: string }> {
-    console.log('StackAuth: getTeamMemberProfiles called with teamId:', teamId);
-    try {
-      const response = await fetch(`${this.baseUrl}/team-member-profiles?team_id=${teamId}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Stack-Publishable-Client-Key': this.publishableClientKey,
-          'X-Stack-Project-Id': this.projectId,
-          'X-Stack-Access-Type': 'server',
-          'X-Stack-Secret-Server-Key': this.serverSecretKey
-        }
-      });
-      console.log('StackAuth: getTeamMemberProfiles response status:', response.status);
-      
-      if (response.ok) {
-        const data = await response.json();
-        console.log('StackAuth: getTeamMemberProfiles response data:', data);
-        return { success: true, profiles: data.items || [] };
-      } else {
-        const errorData = await response.json();
-        console.log('StackAuth: getTeamMemberProfiles failed:', errorData);
-        return { success: false, error: errorData.error || 'Failed to fetch team member profiles' };
-      }
-    } catch (error) {
-      console.error('StackAuth: Error fetching team member profiles:', error);
-      return { success: false, error: 'Network error while fetching team member profiles' };
-    }
+  // Server-privileged: goes through the server proxy when one is configured
+  async getTeamMemberProfiles(teamId: string, options: RequestOptions = {}): Promise<Result<TeamMember[]>> {
+    const endpoint = `team-member-profiles?team_id=${teamId}`;
+    // Same endpoint as getTeamMembers, but the server answer includes emails
+    return this.cachedRequest(
+      `server:${endpoint}`,
+      CACHE_TTL_MS.members,
+      options,
+      opts =>
+        this.loadAllPages(endpoint, pageEndpoint =>
+          this.serverRequest(pageEndpoint, opts, data => data, 'Failed to fetch team member profiles')
+        ),
+      data => decodeList(data, decodeTeamMember)
+    );
   }
 
-  async getUserById(userId: string): Promise<{ success: boolean; user?: any; error?: string }> {
-    console.log('StackAuth: getUserById called with userId:', userId);
-    try {
-      console.log('StackAuth: Making request to /users/' + userId);
-      const response = await this.makeRequest(`/users/${userId}`);
-      console.log('StackAuth: getUserById response status:', response.status);
-      
-      if (response.ok) {
-        const apiData = await response.json();
-        console.log('StackAuth: getUserById response data:', apiData);
-        
-        // Map API response to our User interface
-        const userData = {
-          id: apiData.id,
-          email: apiData.primary_email,
-          displayName: apiData.display_name || apiData.primary_email?.split('@')[0],
-          profile_image_url: apiData.profile_image_url
-        };
-        
-        console.log('StackAuth: Mapped getUserById data:', userData);
-        return { success: true, user: userData };
-      } else {
-        const errorData = await response.json();
-        console.log('StackAuth: getUserById failed:', errorData);
-        return { success: false, error: errorData.error || 'Failed to fetch user' };
-      }
-    } catch (error) {
-      console.error('StackAuth: Error fetching user by ID:', error);
-      return { success: false, error: 'Network error while fetching user' };
+  async getTeamMemberProfilesPage(
+    teamId: string,
+    page: PageRequest = {},
+    options: RequestOptions = {}
+  ): Promise<Result<Page<TeamMember>>> {
+    return this.serverRequest(
+      withPageParams(`team-member-profiles?team_id=${teamId}`, page),
+      options,
+      data => decodePage(data, decodeTeamMember),
+      'Failed to fetch team member profiles'
+    );
+  }
+
+  // Throws StackAuthRequestError when a page fails to load
+  listAllTeamMemberProfiles(teamId: string, options: RequestOptions = {}): AsyncGenerator<TeamMember, void, undefined> {
+    return iteratePages(cursor => this.getTeamMemberProfilesPage(teamId, { cursor }, options));
+  }
+
+  // Calls a server-access endpoint. In proxy mode the request goes to the
+  // proxy with the user's access token, and the proxy decides whether the user
+  // may make it. Without a proxy, the secret key is sent from the device,
+  // which the constructor only allows in development builds.
+  private async serverRequest<T>(
+    endpoint: string,
+    options: ClientRequest,
+    decode: (data: unknown) => T,
+    failureMessage: string
+  ): Promise<Result<T>> {
+    if (this.serverProxyUrl) {
+      return this.request(endpoint, { ...options, baseUrl: this.serverProxyUrl }, decode, failureMessage);
+    }
+    if (!this.serverSecretKey) {
+      return err({ kind: 'forbidden', message: 'Server access is not configured' });
     }
+
+    return this.sendDeduped(
+      'server',
+      endpoint,
+      options,
+      opts =>
+        withTimeout(opts.timeoutMs ?? this.timeoutMs, opts.signal, signal =>
+          this.sendWithRetry(endpoint, { ...opts, signal }, this.buildHeaders('server'))
+        ),
+      decode,
+      failureMessage
+    );
+  }
+
+  async getUserById(userId: string, options: RequestOptions = {}): Promise<Result<User>> {
+    const endpoint = `users/${userId}`;
+    return this.cachedRequest(
+      endpoint,
+      CACHE_TTL_MS.user,
+      options,
+      opts => this.request(endpoint, opts, data => data, 'Failed to fetch user'),
+      data => decodeUser(data)
+    );
   }
 
-  async signOut(): Promise<void> {
+  async signOut(options: RequestOptions = {}): Promise<void> {
     try {
       await this.makeRequest('auth/sessions/current', {
+        ...options,
         method: 'DELETE',
       });
     } catch (error) {
-      console.error('Error signing out:', error);
+      log.warn('Error signing out', { error });
     } finally {
-      await StackTokenStorage.clearTokens();
+      await this.clearSession();
     }
   }
 
-  async isAuthenticated(): Promise<boolean> {
-    const accessToken = await StackTokenStorage.getAccessToken();
-    if (!accessToken) return false;
+  async hasStoredSession(): Promise<boolean> {
+    return !!(await this.storage.getAccessToken());
+  }
 
-    try {
-      const user = await this.getCurrentUser();
-      return !!user;
-    } catch {
-      return false;
-    }
+  async isAuthenticated(options: RequestOptions = {}): Promise<boolean> {
+    if (!(await this.hasStoredSession())) return false;
+
+    // Ask the server: a cached user says nothing about whether the session is still valid
+    const result = await this.getCurrentUser({ ...options, cache: 'reload' });
+    return result.success;
   }
 
-  async getTeams(): Promise<{ success: boolean; teams?: any[]; error?: string }> {
-    try {
-      const response = await this.makeRequest('teams?user_id=me', {
-        method: 'GET',
-      });
+  // The signed-in user's sessions on every device, this one included. Not
+  // cached: a session revoked elsewhere must not show up here.
+  async getSessions(options: RequestOptions = {}): Promise<Result<AuthSession[]>> {
+    return this.request(
+      'auth/sessions?user_id=me',
+      { ...options, method: 'GET' },
+      data => decodeList(data, decodeAuthSession),
+      'Failed to fetch sessions'
+    );
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        return {
-          success: true,
-          teams: data.items || [],
-        };
-      } else {
-        const errorData = await response.json();
-        return {
-          success: false,
-          error: errorData.error || 'Failed to fetch teams',
-        };
-      }
-    } catch (error) {
-      console.error('Error fetching teams:', error);
-      return {
-        success: false,
-        error: 'Network error while fetching teams',
-      };
-    }
+  // Signs another device out. The current session ends with signOut() instead.
+  async revokeSession(sessionId: string, options: RequestOptions = {}): Promise<Result<void>> {
+    return this.request(
+      `/auth/sessions/${sessionId}?user_id=me`,
+      { ...options, method: 'DELETE' },
+      () => undefined,
+      'Failed to revoke session'
+    );
   }
 
-  async getTeam(teamId: string): Promise<{ success: boolean; team?: any; error?: string }> {
-    try {
-      const response = await this.makeRequest(`/teams/${teamId}`, {
-        method: 'GET',
-      });
+  // Signs every other device out. Keeps going past a session that fails to
+  // revoke and reports the first error once the rest have been tried.
+  async revokeOtherSessions(options: RequestOptions = {}): Promise<Result<{ revoked: number }>> {
+    const sessions = await this.getSessions(options);
+    if (!sessions.success) return sessions;
 
-      if (response.ok) {
-        const team = await response.json();
-        return { success: true, team };
+    let revoked = 0;
+    let firstError: StackAuthError | null = null;
+    for (const session of sessions.data.filter(item => !item.isCurrent)) {
+      const result = await this.revokeSession(session.id, options);
+      if (result.success) {
+        revoked++;
+      } else if (result.error.kind === 'aborted') {
+        return result;
       } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to fetch team' };
+        firstError ??= result.error;
       }
-    } catch (error) {
-      console.error('Error fetching team:', error);
-      return { success: false, error: 'Network error while fetching team' };
     }
+    return firstError ? err(firstError) : ok({ revoked });
   }
 
-  async updateTeam(teamId: string, updates: { display_name?: string; profile_image_url?: string; client_metadata?: any }): Promise<{ success: boolean; team?: any; error?: string }> {
-    try {
-      const response = await this.makeRequest(`/teams/${teamId}`, {
-        method: 'PATCH',
-        body: JSON.stringify(updates),
-      });
+  // Every page of the user's teams
+  async getTeams(options: RequestOptions = {}): Promise<Result<Team[]>> {
+    return this.cachedRequest(
+      'teams?user_id=me',
+      CACHE_TTL_MS.teams,
+      options,
+      opts =>
+        this.loadAllPages('teams?user_id=me', endpoint =>
+          this.request(endpoint, { ...opts, method: 'GET' }, data => data, 'Failed to fetch teams')
+        ),
+      data => decodeList(data, decodeTeam)
+    );
+  }
 
-      if (response.ok) {
-        const team = await response.json();
-        return { success: true, team };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to update team' };
-      }
-    } catch (error) {
-      console.error('Error updating team:', error);
-      return { success: false, error: 'Network error while updating team' };
-    }
+  // Pages are not cached; only the full lists are
+  async getTeamsPage(page: PageRequest = {}, options: RequestOptions = {}): Promise<Result<Page<Team>>> {
+    return this.request(
+      withPageParams('teams?user_id=me', page),
+      { ...options, method: 'GET' },
+      data => decodePage(data, decodeTeam),
+      'Failed to fetch teams'
+    );
   }
 
-  async deleteTeam(teamId: string): Promise<{ success: boolean; error?: string }> {
-    try {
-      const accessToken = await StackTokenStorage.getAccessToken();
-      
-      const headers: Record<string, string> = {
-        'X-Stack-Access-Type': 'client',
-        'X-Stack-Project-Id': this.projectId,
-        'X-Stack-Publishable-Client-Key': this.publishableClientKey,
-      };
+  // Throws StackAuthRequestError when a page fails to load
+  listAllTeams(options: RequestOptions = {}): AsyncGenerator<Team, void, undefined> {
+    return iteratePages(cursor => this.getTeamsPage({ cursor }, options));
+  }
 
-      if (accessToken) {
-        headers['X-Stack-Access-Token'] = accessToken;
-      }
+  async getTeam(teamId: string, options: RequestOptions = {}): Promise<Result<Team>> {
+    const endpoint = `teams/${teamId}`;
+    return this.cachedRequest(
+      endpoint,
+      CACHE_TTL_MS.teams,
+      options,
+      opts => this.request(endpoint, { ...opts, method: 'GET' }, data => data, 'Failed to fetch team'),
+      data => decodeTeam(data)
+    );
+  }
 
-      const response = await fetch(`${this.baseUrl}/teams/${teamId}`, {
-        method: 'DELETE',
-        headers,
-      });
+  // Offline, the update is queued and the result is a `queued` error
+  async updateTeam(teamId: string, updates: TeamUpdate, options: RequestOptions = {}): Promise<Result<Team>> {
+    return this.queueableMutation(() => this.applyTeamUpdate(teamId, updates, options), {
+      kind: 'updateTeam',
+      teamId,
+      updates,
+      baseline: this.cachedBaseline(`teams/${teamId}`, data => decodeTeam(data), updates),
+    });
+  }
 
-      // Handle token refresh if access token is expired
-      if (response.status === 401) {
-        const refreshed = await this.refreshAccessToken();
-        if (refreshed) {
-          const newAccessToken = await StackTokenStorage.getAccessToken();
-          if (newAccessToken) {
-            headers['X-Stack-Access-Token'] = newAccessToken;
-            const retryResponse = await fetch(`${this.baseUrl}/teams/${teamId}`, {
-              method: 'DELETE',
-              headers,
-            });
-            
-            if (retryResponse.ok) {
-              return { success: true };
-            } else {
-              const errorData = await retryResponse.json();
-              return { success: false, error: errorData.error || 'Failed to delete team' };
-            }
-          }
-        }
-      }
+  private async applyTeamUpdate(teamId: string, updates: TeamUpdate, options: RequestOptions = {}): Promise<Result<Team>> {
+    const result = await this.request(
+      `/teams/${teamId}`,
+      { ...options, method: 'PATCH', body: JSON.stringify(encodeTeamUpdate(updates)) },
+      data => decodeTeam(data),
+      'Failed to update team'
+    );
+    if (result.success) this.invalidateTeam(teamId);
+    return result;
+  }
 
-      if (response.ok) {
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to delete team' };
-      }
-    } catch (error) {
-      console.error('Error deleting team:', error);
-      return { success: false, error: 'Network error while deleting team' };
-    }
+  async deleteTeam(teamId: string, options: RequestOptions = {}): Promise<Result<void>> {
+    const result = await this.request(`/teams/${teamId}`, { ...options, method: 'DELETE' }, () => undefined, 'Failed to delete team');
+    if (result.success) this.invalidateTeam(teamId);
+    return result;
   }
 
-  async getTeamMembers(teamId: string): Promise<{ success: boolean; members?: any[]; error?: string }> {
-    try {
-      const response = await this.makeRequest(`/team-member-profiles?team_id=${teamId}`, {
-        method: 'GET',
-      });
+  // Every member of the team; large teams are better read a page at a time
+  // with getTeamMembersPage() or listAllTeamMembers()
+  async getTeamMembers(teamId: string, options: RequestOptions = {}): Promise<Result<TeamMember[]>> {
+    const endpoint = `team-member-profiles?team_id=${teamId}`;
+    return this.cachedRequest(
+      endpoint,
+      CACHE_TTL_MS.members,
+      options,
+      opts =>
+        this.loadAllPages(endpoint, pageEndpoint =>
+          this.request(pageEndpoint, { ...opts, method: 'GET' }, data => data, 'Failed to fetch team members')
+        ),
+      data => decodeList(data, decodeTeamMember)
+    );
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        return { success: true, members: data.items || [] };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to fetch team members' };
-      }
-    } catch (error) {
-      console.error('Error fetching team members:', error);
-      return { success: false, error: 'Network error while fetching team members' };
-    }
+  async getTeamMembersPage(teamId: string, page: PageRequest = {}, options: RequestOptions = {}): Promise<Result<Page<TeamMember>>> {
+    return this.request(
+      withPageParams(`team-member-profiles?team_id=${teamId}`, page),
+      { ...options, method: 'GET' },
+      data => decodePage(data, decodeTeamMember),
+      'Failed to fetch team members'
+    );
   }
 
-  async removeTeamMember(teamId: string, userId: string): Promise<{ success: boolean; error?: string }> {
-    try {
-      const response = await this.makeRequest(`/team-memberships/${teamId}/${userId}`, {
-        method: 'DELETE',
-      });
+  // The signed-in user's own profile in the team, without reading the member list
+  async getOwnTeamMemberProfile(teamId: string, options: RequestOptions = {}): Promise<Result<TeamMember>> {
+    const endpoint = `team-member-profiles/${teamId}/me`;
+    return this.cachedRequest(
+      endpoint,
+      CACHE_TTL_MS.members,
+      options,
+      opts => this.request(endpoint, { ...opts, method: 'GET' }, data => data, 'Failed to fetch member profile'),
+      data => decodeTeamMember(data)
+    );
+  }
 
-      if (response.ok) {
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to remove team member' };
-      }
-    } catch (error) {
-      console.error('Error removing team member:', error);
-      return { success: false, error: 'Network error while removing team member' };
-    }
+  // Throws StackAuthRequestError when a page fails to load
+  listAllTeamMembers(teamId: string, options: RequestOptions = {}): AsyncGenerator<TeamMember, void, undefined> {
+    return iteratePages(cursor => this.getTeamMembersPage(teamId, { cursor }, options));
   }
 
-  async sendTeamInvitation(teamId: string, email: string, callbackUrl: string): Promise<{ success: boolean; invitationId?: string; error?: string }> {
-    try {
-      const response = await this.makeRequest('team-invitations/send-code', {
+  async removeTeamMember(teamId: string, userId: string, options: RequestOptions = {}): Promise<Result<void>> {
+    const result = await this.request(
+      `/team-memberships/${teamId}/${userId}`,
+      { ...options, method: 'DELETE' },
+      () => undefined,
+      'Failed to remove team member'
+    );
+    if (result.success) this.invalidateTeam(teamId);
+    return result;
+  }
+
+  async sendTeamInvitation(
+    teamId: string,
+    email: string,
+    callbackUrl: string = this.teamInvitationUrl,
+    options: RequestOptions = {}
+  ): Promise<Result<{ invitationId: string }>> {
+    if (!callbackUrl) {
+      return err({ kind: 'validation', message: 'No team invitation callback URL is configured' });
+    }
+    const result = await this.request(
+      'team-invitations/send-code',
+      {
+        ...options,
         method: 'POST',
         body: JSON.stringify({
           team_id: teamId,
           email,
           callback_url: callbackUrl,
         }),
-      });
+      },
+      data => ({ invitationId: decodeSentInvitationId(data) }),
+      'Failed to send invitation'
+    );
+    if (result.success) this.invalidateTeam(teamId);
+    return result;
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        return { success: true, invitationId: data.id };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to send invitation' };
-      }
-    } catch (error) {
-      console.error('Error sending team invitation:', error);
-      return { success: false, error: 'Network error while sending invitation' };
-    }
+  async getTeamInvitations(teamId: string, options: RequestOptions = {}): Promise<Result<TeamInvitation[]>> {
+    const endpoint = `team-invitations?team_id=${teamId}`;
+    return this.cachedRequest(
+      endpoint,
+      CACHE_TTL_MS.invitations,
+      options,
+      opts =>
+        this.loadAllPages(endpoint, pageEndpoint =>
+          this.request(pageEndpoint, { ...opts, method: 'GET' }, data => data, 'Failed to fetch invitations')
+        ),
+      data => decodeList(data, decodeTeamInvitation)
+    );
   }
 
-  async getTeamInvitations(teamId: string): Promise<{ success: boolean; invitations?: any[]; error?: string }> {
-    try {
-      const response = await this.makeRequest(`/team-invitations?team_id=${teamId}`, {
-        method: 'GET',
-      });
+  async getTeamInvitationsPage(
+    teamId: string,
+    page: PageRequest = {},
+    options: RequestOptions = {}
+  ): Promise<Result<Page<TeamInvitation>>> {
+    return this.request(
+      withPageParams(`team-invitations?team_id=${teamId}`, page),
+      { ...options, method: 'GET' },
+      data => decodePage(data, decodeTeamInvitation),
+      'Failed to fetch invitations'
+    );
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        return { success: true, invitations: data.items || [] };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to fetch invitations' };
-      }
-    } catch (error) {
-      console.error('Error fetching team invitations:', error);
-      return { success: false, error: 'Network error while fetching invitations' };
-    }
+  // Throws StackAuthRequestError when a page fails to load
+  listAllTeamInvitations(teamId: string, options: RequestOptions = {}): AsyncGenerator<TeamInvitation, void, undefined> {
+    return iteratePages(cursor => this.getTeamInvitationsPage(teamId, { cursor }, options));
   }
 
-  async deleteTeamInvitation(invitationId: string, teamId: string): Promise<{ success: boolean; error?: string }> {
-    try {
-      const accessToken = await StackTokenStorage.getAccessToken();
-      
-      const headers: Record<string, string> = {
-        'X-Stack-Access-Type': 'client',
-        'X-Stack-Project-Id': this.projectId,
-        'X-Stack-Publishable-Client-Key': this.publishableClientKey,
-      };
+  async deleteTeamInvitation(invitationId: string, teamId: string, options: RequestOptions = {}): Promise<Result<void>> {
+    const result = await this.request(
+      `/team-invitations/${invitationId}?team_id=${teamId}`,
+      { ...options, method: 'DELETE' },
+      () => undefined,
+      'Failed to delete invitation'
+    );
+    if (result.success) this.invalidateTeam(teamId);
+    return result;
+  }
+
+  // Offline, the update is queued and the result is a `queued` error
+  async updateTeamMemberProfile(
+    teamId: string,
+    updates: TeamMemberProfileUpdate,
+    options: RequestOptions = {}
+  ): Promise<Result<TeamMember>> {
+    return this.queueableMutation(() => this.applyTeamMemberProfileUpdate(teamId, updates, options), {
+      kind: 'updateTeamMemberProfile',
+      teamId,
+      updates,
+      baseline: this.cachedBaseline(`team-member-profiles/${teamId}/me`, data => decodeTeamMember(data), updates),
+    });
+  }
 
-      if (accessToken) {
-        headers['X-Stack-Access-Token'] = accessToken;
+  private async applyTeamMemberProfileUpdate(
+    teamId: string,
+    updates: TeamMemberProfileUpdate,
+    options: RequestOptions = {}
+  ): Promise<Result<TeamMember>> {
+    const result = await this.request(
+      `/team-member-profiles/${teamId}/me`,
+      { ...options, method: 'PATCH', body: JSON.stringify(encodeTeamMemberProfileUpdate(updates)) },
+      data => decodeTeamMember(data),
+      'Failed to update member profile'
+    );
+    if (result.success) this.invalidateTeam(teamId);
+    return result;
+  }
+
+  // Runs `apply`, or queues `mutation` for later when the device is offline or
+  // the request never reached the server
+  private async queueableMutation<T>(apply: () => Promise<Result<T>>, mutation: NewQueuedMutation): Promise<Result<T>> {
+    if (this.mutationQueue && this.connectivity.isOnline()) {
+      const result = await apply();
+      if (result.success || (result.error.kind !== 'network' && result.error.kind !== 'offline')) {
+        return result;
       }
+    } else if (!this.mutationQueue) {
+      return apply();
+    }
 
-      const response = await fetch(`${this.baseUrl}/team-invitations/${invitationId}?team_id=${teamId}`, {
-        method: 'DELETE',
-        headers,
-      });
+    const queued = await this.mutationQueue.add({ ...mutation, accountId: (await this.getAccountId()) ?? undefined });
+    log.info('Queued mutation for replay', { kind: queued.kind, teamId: queued.teamId });
+    return err({ kind: 'queued', message: 'Saved offline', mutationId: queued.id });
+  }
 
-      // Handle token refresh if access token is expired
-      if (response.status === 401) {
-        const refreshed = await this.refreshAccessToken();
-        if (refreshed) {
-          const newAccessToken = await StackTokenStorage.getAccessToken();
-          if (newAccessToken) {
-            headers['X-Stack-Access-Token'] = newAccessToken;
-            const retryResponse = await fetch(`${this.baseUrl}/team-invitations/${invitationId}?team_id=${teamId}`, {
-              method: 'DELETE',
-              headers,
-            });
-            
-            if (retryResponse.ok) {
-              return { success: true };
-            } else {
-              const errorData = await retryResponse.json();
-              return { success: false, error: errorData.error || 'Failed to delete invitation' };
+  // Replays queued mutations in order. Stops at the first transient failure
+  // and leaves the rest queued; anything else settles the mutation.
+  replayQueuedMutations(): Promise<void> {
+    if (!this.mutationQueue) return Promise.resolve();
+    if (!this.replaying) {
+      const queue = this.mutationQueue;
+      this.replaying = (async () => {
+        await queue.ready();
+        const accountId = await this.getAccountId();
+        const pending = queue.list().filter(mutation => this.isActiveAccountMutation(mutation));
+        if (pending.length === 0 || !(await this.hasStoredSession())) return;
+        for (const mutation of pending) {
+          // Stop on a switch; the rest belongs to the account that queued it
+          if (!this.connectivity.isOnline() || this.accountId !== accountId) return;
+          const outcome = await this.replayMutation(mutation);
+          // After a switch the outcome may come from the other account's session
+          if (!outcome || this.accountId !== accountId) return;
+          await queue.remove(mutation.id);
+          log.info('Replayed queued mutation', { kind: mutation.kind, status: outcome.status });
+          this.mutationReplayedListeners.forEach(listener => {
+            try {
+              listener(outcome);
+            } catch (error) {
+              log.error('Mutation replayed listener failed', { error });
             }
-          }
+          });
         }
-      }
+      })()
+        .catch(error => {
+          log.error('Error replaying queued mutations', { error });
+        })
+        .finally(() => {
+          this.replaying = null;
+        });
+    }
+    return this.replaying;
+  }
 
-      if (response.ok) {
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to delete invitation' };
-      }
-    } catch (error) {
-      console.error('Error deleting team invitation:', error);
-      return { success: false, error: 'Network error while deleting invitation' };
+  // Returns null when the mutation should stay queued
+  private async replayMutation(mutation: QueuedMutation): Promise<MutationReplayOutcome | null> {
+    const current =
+      mutation.kind === 'updateTeam'
+        ? await this.getTeam(mutation.teamId, { cache: 'reload' })
+        : await this.getOwnTeamMemberProfile(mutation.teamId, { cache: 'reload' });
+    if (!current.success) {
+      return isTransientError(current.error) ? null : { status: 'failed', mutation, error: current.error };
+    }
+
+    const fields = findConflicts(mutation.baseline, mutation.updates, current.data);
+    if (fields.length > 0) {
+      return { status: 'conflict', mutation, fields };
+    }
+
+    const result =
+      mutation.kind === 'updateTeam'
+        ? await this.applyTeamUpdate(mutation.teamId, mutation.updates)
+        : await this.applyTeamMemberProfileUpdate(mutation.teamId, mutation.updates);
+    if (!result.success) {
+      return isTransientError(result.error) ? null : { status: 'failed', mutation, error: result.error };
     }
+    return { status: 'applied', mutation };
   }
 
-  async updateTeamMemberProfile(teamId: string, updates: { display_name?: string; profile_image_url?: string }): Promise<{ success: boolean; profile?: any; error?: string }> {
+  // Decoded cached data, or undefined when there is none (or it doesn't decode)
+  private cachedData<T>(key: string, decode: (data: unknown) => T): T | undefined {
+    const entry = this.cache?.get(this.cacheKey(key));
+    if (!entry) return undefined;
     try {
-      const response = await this.makeRequest(`/team-member-profiles/${teamId}/me`, {
-        method: 'PATCH',
-        body: JSON.stringify(updates),
-      });
-
-      if (response.ok) {
-        const profile = await response.json();
-        return { success: true, profile };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to update member profile' };
-      }
-    } catch (error) {
-      console.error('Error updating team member profile:', error);
-      return { success: false, error: 'Network error while updating member profile' };
+      return decode(entry.payload);
+    } catch {
+      return undefined;
     }
   }
-}
 
-// Export singleton instance
-export const stackAuthClient = new StackAuthClient();
\ No newline at end of file
+  // The cached values of the fields `updates` touches, for conflict detection
+  private cachedBaseline<T extends object>(
+    key: string,
+    decode: (data: unknown) => T | undefined,
+    updates: object
+  ): Record<string, unknown> | undefined {
+    const current = this.cachedData(key, decode);
+    if (!current) return undefined;
+    return Object.fromEntries(Object.keys(updates).map(field => [field, (current as Record<string, unknown>)[field]]));
+  }
+}
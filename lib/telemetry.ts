@@ -0,0 +1,94 @@
+import { StackAuthError, StackErrorCode } from './errors';
+
+// Opt-in client telemetry: request latency and where people drop out of the
+// auth flow. Events carry no credentials, emails or request bodies, and
+// endpoints lose their query string, which can carry codes. Nothing is
+// recorded unless a sink is passed to StackAuthClient or AuthProvider.
+
+// Sign ins and sign ups other than OAuth, which has events of its own
+export type AuthMethod = 'password' | 'otp';
+
+interface FailureFields {
+  // Set when the attempt failed
+  errorKind?: StackAuthError['kind'];
+  errorCode?: StackErrorCode;
+}
+
+export type TelemetryEventData =
+  // `requestId` pairs a request's start and end; retries and the replay after
+  // a token refresh are requests of their own
+  | { type: 'request_started'; requestId: number; method: string; endpoint: string }
+  | ({
+      type: 'request_finished';
+      requestId: number;
+      method: string;
+      endpoint: string;
+      // Null when no response arrived
+      status: number | null;
+      durationMs: number;
+    } & FailureFields)
+  | { type: 'sign_in_attempted'; method: AuthMethod }
+  | ({ type: 'sign_in_completed'; method: AuthMethod; success: boolean; durationMs: number } & FailureFields)
+  | { type: 'sign_up_attempted'; method: AuthMethod }
+  | ({ type: 'sign_up_completed'; method: AuthMethod; success: boolean; durationMs: number } & FailureFields)
+  | { type: 'oauth_started'; provider: string }
+  // `provider` and `durationMs` are unknown when the app restarted in between
+  | ({ type: 'oauth_completed'; provider?: string; success: boolean; durationMs?: number } & FailureFields)
+  // Another sign in began before the provider sent the user back
+  | { type: 'oauth_abandoned'; provider: string; durationMs: number }
+  | { type: 'token_refresh_failed'; reason: 'no_refresh_token' | 'rejected' | 'server_error' | 'network'; status?: number }
+  // Emitted by LoginScreen
+  | {
+      type: 'login_screen';
+      action: 'viewed' | 'mode_switched' | 'submitted' | 'validation_failed';
+      mode: 'signin' | 'signup' | 'code' | 'forgot';
+      reason?: string;
+    };
+
+export type TelemetryEvent = TelemetryEventData & { timestamp: number };
+
+export type TelemetryEventType = TelemetryEvent['type'];
+
+export interface TelemetrySink {
+  record(event: TelemetryEvent): void;
+}
+
+// The default: telemetry stays off until a real sink is configured
+export const noopTelemetrySink: TelemetrySink = {
+  record() {},
+};
+
+// Keeps every event, for tests and debugging screens
+export class MemoryTelemetrySink implements TelemetrySink {
+  readonly events: TelemetryEvent[] = [];
+
+  record(event: TelemetryEvent): void {
+    this.events.push(event);
+  }
+
+  ofType<T extends TelemetryEventType>(type: T): Extract<TelemetryEvent, { type: T }>[] {
+    return this.events.filter((event): event is Extract<TelemetryEvent, { type: T }> => event.type === type);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+// Stamps `data` and hands it to `sink`. A broken sink must never take the
+// app down with it.
+export const emitTelemetry = (sink: TelemetrySink, data: TelemetryEventData): void => {
+  try {
+    sink.record({ ...data, timestamp: Date.now() } as TelemetryEvent);
+  } catch {
+    // Dropped, like a failing log sink
+  }
+};
+
+export const failureFields = (error: StackAuthError): FailureFields => ({
+  errorKind: error.kind,
+  errorCode: error.kind === 'stack' ? error.code : undefined,
+});
+
+// Endpoint without its query string
+export const telemetryEndpoint = (endpoint: string): string => endpoint.split('?')[0];
@@ -0,0 +1,907 @@
+import * as Crypto from 'expo-crypto';
+import { createAbortError } from '../abort';
+import { HttpTransport, TransportRequest } from '../transport';
+
+// In-process stand-in for the Stack Auth REST API. It implements
+// HttpTransport, so a StackAuthClient built with `transport: server` talks to
+// it without touching the network. Only the endpoints the client uses are
+// modelled, with the status codes, error bodies and `x-stack-known-error`
+// headers the real API answers with.
+
+export interface FakeStackServerOptions {
+  projectId?: string;
+  publishableClientKey?: string;
+  secretServerKey?: string;
+  oauthProviders?: string[];
+  // Lifetime of issued access tokens
+  accessTokenTtlMs?: number;
+  // Items per page of a paginated list when the request has no `limit`
+  pageSize?: number;
+  now?: () => number;
+}
+
+export interface FakeUser {
+  id: string;
+  email: string;
+  primaryEmailVerified?: boolean;
+  password?: string;
+  displayName?: string;
+  profileImageUrl?: string;
+}
+
+export interface FakeTeam {
+  id: string;
+  displayName: string;
+  profileImageUrl?: string;
+  clientMetadata?: Record<string, unknown>;
+}
+
+export interface FakeSession {
+  id: string;
+  userId: string;
+  createdAt: number;
+  lastUsedAt?: number;
+  // Reported as where the session was last used from
+  ip?: string;
+}
+
+interface FakeMembership {
+  teamId: string;
+  userId: string;
+  displayName?: string;
+  profileImageUrl?: string;
+  permissions: string[];
+}
+
+interface FakeInvitation {
+  id: string;
+  teamId: string;
+  email: string;
+  callbackUrl: string;
+  expiresAtMillis: number;
+}
+
+// An email the server would have sent, with the code and link it carries
+export interface FakeEmail {
+  to: string;
+  kind: 'sign_in_code' | 'password_reset' | 'email_verification';
+  // What the user would type in; reset and verification emails only have the link
+  code: string;
+  // The callback URL with the full code appended as `code`
+  link: string;
+}
+
+interface FakeVerificationCode {
+  purpose: 'sign_in' | 'password_reset' | 'email_verification';
+  // A sign-in code is the typed code followed by the nonce handed to the client
+  fullCode: string;
+  email: string;
+  expiresAt: number;
+  used: boolean;
+}
+
+interface FakeAuthorizationCode {
+  userId: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+// A canned answer for the next matching request. 'network' rejects like a
+// failed fetch; 'hang' never answers until the request's signal aborts. An
+// object answers with its status, as a known error when `code` is set, or
+// with `body` verbatim (e.g. a malformed payload).
+export type FakeFailure =
+  | 'network'
+  | 'hang'
+  | {
+      status: number;
+      code?: string;
+      message?: string;
+      details?: unknown;
+      body?: unknown;
+      headers?: Record<string, string>;
+    };
+
+export const TEAM_ADMIN_PERMISSIONS = ['$update_team', '$delete_team', '$invite_members', '$remove_members', '$read_members'];
+export const TEAM_MEMBER_PERMISSIONS = ['$read_members'];
+
+const DEFAULT_ACCESS_TOKEN_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 100;
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SIGN_IN_CODE_TTL_MS = 10 * 60 * 1000;
+const PASSWORD_RESET_CODE_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MIN_PASSWORD_LENGTH = 8;
+
+const base64Url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+
+const knownError = (status: number, code: string, message: string, details?: unknown) =>
+  json(status, { code, error: message, details }, { 'x-stack-known-error': code });
+
+const notFound = () => json(404, { error: 'Not found' });
+
+class Route {
+  readonly segments: string[];
+  readonly query: URLSearchParams;
+
+  // `url` is relative to the API root
+  constructor(readonly method: string, url: string) {
+    const [path, query = ''] = url.split('?');
+    this.segments = path.split('/').filter(Boolean);
+    this.query = new URLSearchParams(query);
+  }
+
+  get path(): string {
+    return this.segments.join('/');
+  }
+
+  // Matches `pattern` such as 'teams/:id', returning the named segments
+  match(method: string, pattern: string): Record<string, string> | null {
+    if (method !== this.method) return null;
+    const parts = pattern.split('/');
+    if (parts.length !== this.segments.length) return null;
+    const params: Record<string, string> = {};
+    for (let i = 0; i < parts.length; i++) {
+      if (parts[i].startsWith(':')) {
+        params[parts[i].slice(1)] = decodeURIComponent(this.segments[i]);
+      } else if (parts[i] !== this.segments[i]) {
+        return null;
+      }
+    }
+    return params;
+  }
+}
+
+export class FakeStackServer implements HttpTransport {
+  readonly baseUrl = 'https://stack.test/api/v1';
+  readonly projectId: string;
+  readonly publishableClientKey: string;
+  readonly secretServerKey: string;
+  oauthProviders: string[];
+  accessTokenTtlMs: number;
+  pageSize: number;
+  // Every request the server received, in order
+  readonly requests: TransportRequest[] = [];
+  // Every email the server sent, in order
+  readonly emails: FakeEmail[] = [];
+
+  private now: () => number;
+  private nextId = 1;
+  private users = new Map<string, FakeUser>();
+  private teams = new Map<string, FakeTeam>();
+  private memberships: FakeMembership[] = [];
+  private invitations = new Map<string, FakeInvitation>();
+  // Refresh token to its session
+  private sessions = new Map<string, FakeSession>();
+  // Access token to its session's refresh token
+  private accessTokens = new Map<string, { refreshToken: string; expiresAt: number }>();
+  private authorizationCodes = new Map<string, FakeAuthorizationCode>();
+  private verificationCodes = new Map<string, FakeVerificationCode>();
+  private failures: { method?: string; path: string; failure: FakeFailure }[] = [];
+
+  constructor(options: FakeStackServerOptions = {}) {
+    this.projectId = options.projectId ?? 'test-project';
+    this.publishableClientKey = options.publishableClientKey ?? 'pck_test';
+    this.secretServerKey = options.secretServerKey ?? 'ssk_test';
+    this.oauthProviders = options.oauthProviders ?? ['google', 'github'];
+    this.accessTokenTtlMs = options.accessTokenTtlMs ?? DEFAULT_ACCESS_TOKEN_TTL_MS;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  // --- Seeding -------------------------------------------------------------
+
+  addUser(user: Omit<FakeUser, 'id'> & { id?: string }): FakeUser {
+    const created = { ...user, id: user.id ?? this.generateId('user') };
+    this.users.set(created.id, created);
+    return created;
+  }
+
+  addTeam(team: Omit<FakeTeam, 'id'> & { id?: string }): FakeTeam {
+    const created = { ...team, id: team.id ?? this.generateId('team') };
+    this.teams.set(created.id, created);
+    return created;
+  }
+
+  addMember(teamId: string, userId: string, permissions: string[] = TEAM_MEMBER_PERMISSIONS): void {
+    this.memberships.push({ teamId, userId, permissions: [...permissions] });
+  }
+
+  getTeam(teamId: string): FakeTeam | undefined {
+    return this.teams.get(teamId);
+  }
+
+  getMembership(teamId: string, userId: string): FakeMembership | undefined {
+    return this.memberships.find(item => item.teamId === teamId && item.userId === userId);
+  }
+
+  listInvitations(teamId: string): FakeInvitation[] {
+    return [...this.invitations.values()].filter(item => item.teamId === teamId);
+  }
+
+  listSessions(userId: string): FakeSession[] {
+    return [...this.sessions.values()].filter(session => session.userId === userId);
+  }
+
+  // Starts a session directly, as if the user had signed in elsewhere
+  createSession(userId: string, ip?: string): { accessToken: string; refreshToken: string; sessionId: string } {
+    const refreshToken = this.generateToken('refresh');
+    const session = { id: this.generateId('session'), userId, createdAt: this.now(), ip };
+    this.sessions.set(refreshToken, session);
+    return { accessToken: this.issueAccessToken(refreshToken), refreshToken, sessionId: session.id };
+  }
+
+  // The last email sent to `email`
+  lastEmailTo(email: string): FakeEmail | undefined {
+    return [...this.emails].reverse().find(item => item.to === email);
+  }
+
+  // --- Test controls -------------------------------------------------------
+
+  // Makes every issued access token fail with ACCESS_TOKEN_EXPIRED while
+  // leaving sessions (and so refresh) intact
+  expireAccessTokens(): void {
+    this.accessTokens.clear();
+  }
+
+  // Ends every session, so refreshing fails as well
+  revokeSessions(): void {
+    this.sessions.clear();
+    this.accessTokens.clear();
+  }
+
+  // Answers the next request to `path` (relative to the API root, without
+  // query) with `failure` instead of handling it
+  failNext(path: string, failure: FakeFailure, method?: string): void {
+    this.failures.push({ path: path.replace(/^\/+/, ''), failure, method });
+  }
+
+  // Stands in for the user approving the OAuth provider's consent screen.
+  // Takes the URL from signInWithOAuth and returns the redirect the app receives.
+  async authorizeOAuth(authUrl: string, userId: string): Promise<{ redirectUrl: string; code: string; state: string }> {
+    const route = new Route('GET', authUrl.slice(this.baseUrl.length));
+    const params = authUrl.startsWith(this.baseUrl) ? route.match('GET', 'auth/oauth/authorize/:provider') : null;
+    if (!params) {
+      throw new Error(`Not an authorize URL: ${authUrl}`);
+    }
+    if (!this.oauthProviders.includes(params.provider)) {
+      throw new Error(`OAuth provider ${params.provider} is not enabled`);
+    }
+    const redirectUri = route.query.get('redirect_uri') ?? '';
+    const state = route.query.get('state') ?? '';
+    if (route.query.get('code_challenge_method') !== 'S256') {
+      throw new Error('Only S256 code challenges are supported');
+    }
+
+    const code = this.generateToken('code');
+    this.authorizationCodes.set(code, { userId, codeChallenge: route.query.get('code_challenge') ?? '', redirectUri });
+    const separator = redirectUri.includes('?') ? '&' : '?';
+    return { redirectUrl: `${redirectUri}${separator}code=${code}&state=${encodeURIComponent(state)}`, code, state };
+  }
+
+  // --- HttpTransport -------------------------------------------------------
+
+  async send(request: TransportRequest): Promise<Response> {
+    // Copied, since the client reuses its headers object when it replays a request
+    this.requests.push({ ...request, headers: { ...request.headers } });
+    if (request.signal?.aborted) throw createAbortError();
+    if (!request.url.startsWith(this.baseUrl)) {
+      throw new TypeError('Network request failed');
+    }
+
+    const route = new Route(request.method.toUpperCase(), request.url.slice(this.baseUrl.length));
+    const failure = this.takeFailure(route);
+    if (failure === 'network') throw new TypeError('Network request failed');
+    if (failure === 'hang') return this.hang(request.signal);
+    if (failure) {
+      const message = failure.message ?? failure.code ?? 'Injected failure';
+      if (failure.body !== undefined) return json(failure.status, failure.body, failure.headers);
+      return failure.code
+        ? json(
+            failure.status,
+            { code: failure.code, error: message, details: failure.details },
+            { 'x-stack-known-error': failure.code, ...failure.headers }
+          )
+        : json(failure.status, { error: message }, failure.headers);
+    }
+
+    const header = (name: string) => {
+      const key = Object.keys(request.headers).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+      return key ? request.headers[key] : undefined;
+    };
+    if (header('X-Stack-Project-Id') !== this.projectId) {
+      return knownError(400, 'PROJECT_NOT_FOUND', 'Project not found');
+    }
+    if (header('X-Stack-Access-Type') === 'server') {
+      if (header('X-Stack-Secret-Server-Key') !== this.secretServerKey) {
+        return knownError(401, 'INVALID_SECRET_SERVER_KEY', 'The secret server key is not valid for this project');
+      }
+    } else if (header('X-Stack-Publishable-Client-Key') !== this.publishableClientKey) {
+      return knownError(401, 'INVALID_PUBLISHABLE_CLIENT_KEY', 'The publishable client key is not valid for this project');
+    }
+
+    let body: any = {};
+    if (request.body) {
+      try {
+        body = JSON.parse(request.body);
+      } catch {
+        return knownError(400, 'SCHEMA_ERROR', 'Request body is not valid JSON');
+      }
+    }
+
+    return this.handle(route, body, {
+      isServer: header('X-Stack-Access-Type') === 'server',
+      accessToken: header('X-Stack-Access-Token'),
+      refreshToken: header('X-Stack-Refresh-Token'),
+    });
+  }
+
+  private takeFailure(route: Route): FakeFailure | null {
+    const index = this.failures.findIndex(
+      item => item.path === route.path && (!item.method || item.method.toUpperCase() === route.method)
+    );
+    if (index === -1) return null;
+    return this.failures.splice(index, 1)[0].failure;
+  }
+
+  private hang(signal: AbortSignal | undefined): Promise<Response> {
+    return new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => reject(createAbortError()));
+    });
+  }
+
+  // --- Routing -------------------------------------------------------------
+
+  private async handle(
+    route: Route,
+    body: any,
+    auth: { isServer: boolean; accessToken?: string; refreshToken?: string }
+  ): Promise<Response> {
+    let params: Record<string, string> | null;
+
+    if (route.match('POST', 'auth/password/sign-up')) return this.signUp(body);
+    if (route.match('POST', 'auth/password/sign-in')) return this.signIn(body);
+    if (route.match('POST', 'auth/sessions/current/refresh')) return this.refresh(auth.refreshToken);
+    if (route.match('POST', 'auth/oauth/token')) return this.exchangeCode(body);
+    if (route.match('POST', 'auth/otp/send-sign-in-code')) return this.sendSignInCode(body);
+    if (route.match('POST', 'auth/otp/sign-in')) return this.signInWithCode(body);
+    if (route.match('POST', 'auth/password/send-reset-code')) return this.sendPasswordResetCode(body);
+    if (route.match('POST', 'auth/password/reset/check-code')) return this.checkPasswordResetCode(body);
+    if (route.match('POST', 'auth/password/reset')) return this.resetPassword(body);
+    if (route.match('POST', 'contact-channels/verify')) return this.verifyEmail(body);
+    if (route.match('GET', 'projects/current')) return this.currentProject();
+
+    // Server access acts on behalf of the project, not of a user
+    if (auth.isServer) {
+      if (route.match('GET', 'team-member-profiles')) return this.listMemberProfiles(route.query, null);
+      return notFound();
+    }
+
+    const user = this.authenticate(auth.accessToken);
+    if (user instanceof Response) return user;
+
+    const currentRefreshToken = this.accessTokens.get(auth.accessToken!)!.refreshToken;
+    if (route.match('DELETE', 'auth/sessions/current')) {
+      this.endSession(currentRefreshToken);
+      return json(200, { success: true });
+    }
+    if (route.match('GET', 'auth/sessions')) return this.listSessionsFor(user, currentRefreshToken, route.query);
+    if ((params = route.match('DELETE', 'auth/sessions/:id'))) {
+      return this.revokeSession(user, currentRefreshToken, params.id, route.query);
+    }
+    if (route.match('GET', 'users/me')) return json(200, this.userJson(user));
+    if (route.match('POST', 'contact-channels/send-verification-code')) return this.sendVerificationCode(user, body);
+    if ((params = route.match('GET', 'users/:id'))) return this.getUser(user, params.id);
+    if (route.match('GET', 'teams')) return this.listTeams(user, route.query);
+    if ((params = route.match('GET', 'teams/:id'))) return this.withMembership(user, params.id, () => json(200, this.teamJson(params!.id)));
+    if ((params = route.match('PATCH', 'teams/:id'))) return this.updateTeam(user, params.id, body);
+    if ((params = route.match('DELETE', 'teams/:id'))) return this.deleteTeam(user, params.id);
+    if (route.match('GET', 'team-member-profiles')) return this.listMemberProfiles(route.query, user);
+    if ((params = route.match('GET', 'team-member-profiles/:teamId/:userId'))) {
+      return this.getMemberProfile(user, params.teamId, params.userId);
+    }
+    if ((params = route.match('PATCH', 'team-member-profiles/:teamId/:userId'))) {
+      return this.updateMemberProfile(user, params.teamId, params.userId, body);
+    }
+    if ((params = route.match('DELETE', 'team-memberships/:teamId/:userId'))) {
+      return this.removeMember(user, params.teamId, params.userId);
+    }
+    if (route.match('GET', 'team-permissions')) return this.listPermissions(user, route.query);
+    if (route.match('POST', 'team-invitations/send-code')) return this.sendInvitation(user, body);
+    if (route.match('GET', 'team-invitations')) return this.listInvitationsFor(user, route.query);
+    if ((params = route.match('DELETE', 'team-invitations/:id'))) return this.deleteInvitation(user, params.id, route.query);
+
+    return notFound();
+  }
+
+  private authenticate(accessToken: string | undefined): FakeUser | Response {
+    if (!accessToken) {
+      return knownError(401, 'CANNOT_GET_OWN_USER_WITHOUT_USER', 'You must be signed in to do this');
+    }
+    const session = this.accessTokens.get(accessToken);
+    if (!session || session.expiresAt <= this.now()) {
+      return knownError(401, 'ACCESS_TOKEN_EXPIRED', 'Access token has expired. Please refresh it and try again.');
+    }
+    const current = this.sessions.get(session.refreshToken);
+    const user = current ? this.users.get(current.userId) : undefined;
+    if (!current || !user) {
+      return knownError(401, 'ACCESS_TOKEN_EXPIRED', 'Access token has expired. Please refresh it and try again.');
+    }
+    current.lastUsedAt = this.now();
+    return user;
+  }
+
+  // --- Auth ----------------------------------------------------------------
+
+  private signUp(body: any): Response {
+    const { email, password } = body;
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return knownError(400, 'SCHEMA_ERROR', 'email and password are required');
+    }
+    if (this.findUserByEmail(email)) {
+      return knownError(409, 'USER_EMAIL_ALREADY_EXISTS', 'User with this email already exists.');
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return knownError(400, 'PASSWORD_TOO_SHORT', `Password too short. Minimum length is ${MIN_PASSWORD_LENGTH}.`, {
+        min_length: MIN_PASSWORD_LENGTH,
+      });
+    }
+    const user = this.addUser({ email, password });
+    return json(200, this.tokensJson(user.id));
+  }
+
+  private signIn(body: any): Response {
+    const user = this.findUserByEmail(body.email);
+    if (!user || user.password === undefined || user.password !== body.password) {
+      return knownError(400, 'EMAIL_PASSWORD_MISMATCH', 'Wrong e-mail or password.');
+    }
+    return json(200, this.tokensJson(user.id));
+  }
+
+  private sendSignInCode(body: any): Response {
+    if (typeof body.email !== 'string' || !body.email.includes('@')) {
+      return knownError(400, 'SCHEMA_ERROR', 'email must be a valid email address');
+    }
+    if (typeof body.callback_url !== 'string' || !body.callback_url) {
+      return knownError(400, 'SCHEMA_ERROR', 'callback_url is required');
+    }
+    const code = Array.from(Crypto.getRandomBytes(6), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    const nonce = this.generateToken('nonce');
+    const fullCode = `${code}${nonce}`;
+    this.verificationCodes.set(fullCode, {
+      purpose: 'sign_in',
+      fullCode,
+      email: body.email,
+      expiresAt: this.now() + SIGN_IN_CODE_TTL_MS,
+      used: false,
+    });
+    this.emails.push({ to: body.email, kind: 'sign_in_code', code, link: this.codeLink(body.callback_url, fullCode) });
+    return json(200, { nonce });
+  }
+
+  private signInWithCode(body: any): Response {
+    const verification = this.findVerificationCode('sign_in', body.code);
+    if (verification instanceof Response) return verification;
+    verification.used = true;
+    const existing = this.findUserByEmail(verification.email);
+    const user = existing ?? this.addUser({ email: verification.email });
+    return json(200, { ...this.tokensJson(user.id), is_new_user: !existing });
+  }
+
+  private sendPasswordResetCode(body: any): Response {
+    if (typeof body.email !== 'string' || !body.email.includes('@')) {
+      return knownError(400, 'SCHEMA_ERROR', 'email must be a valid email address');
+    }
+    if (typeof body.callback_url !== 'string' || !body.callback_url) {
+      return knownError(400, 'SCHEMA_ERROR', 'callback_url is required');
+    }
+    // Answers the same either way, so the endpoint can't be used to probe for accounts
+    if (this.findUserByEmail(body.email)) {
+      const fullCode = this.generateToken('reset');
+      this.verificationCodes.set(fullCode, {
+        purpose: 'password_reset',
+        fullCode,
+        email: body.email,
+        expiresAt: this.now() + PASSWORD_RESET_CODE_TTL_MS,
+        used: false,
+      });
+      this.emails.push({ to: body.email, kind: 'password_reset', code: fullCode, link: this.codeLink(body.callback_url, fullCode) });
+    }
+    return json(200, { success: 'maybe, only if user with e-mail exists' });
+  }
+
+  private checkPasswordResetCode(body: any): Response {
+    const verification = this.findVerificationCode('password_reset', body.code);
+    return verification instanceof Response ? verification : json(200, { is_code_valid: true });
+  }
+
+  private resetPassword(body: any): Response {
+    const verification = this.findVerificationCode('password_reset', body.code);
+    if (verification instanceof Response) return verification;
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      return knownError(400, 'PASSWORD_TOO_SHORT', `Password too short. Minimum length is ${MIN_PASSWORD_LENGTH}.`, {
+        min_length: MIN_PASSWORD_LENGTH,
+      });
+    }
+    verification.used = true;
+    const user = this.findUserByEmail(verification.email);
+    if (user) user.password = body.password;
+    return json(200, { success: true });
+  }
+
+  private sendVerificationCode(user: FakeUser, body: any): Response {
+    if (typeof body.callback_url !== 'string' || !body.callback_url) {
+      return knownError(400, 'SCHEMA_ERROR', 'callback_url is required');
+    }
+    if (body.email !== user.email) {
+      return knownError(404, 'CONTACT_CHANNEL_NOT_FOUND', 'The email is not a contact channel of this user.');
+    }
+    if (user.primaryEmailVerified) {
+      return knownError(409, 'EMAIL_ALREADY_VERIFIED', 'The e-mail is already verified.');
+    }
+    const fullCode = this.generateToken('verify');
+    this.verificationCodes.set(fullCode, {
+      purpose: 'email_verification',
+      fullCode,
+      email: user.email,
+      expiresAt: this.now() + EMAIL_VERIFICATION_CODE_TTL_MS,
+      used: false,
+    });
+    this.emails.push({ to: user.email, kind: 'email_verification', code: fullCode, link: this.codeLink(body.callback_url, fullCode) });
+    return json(200, { success: true });
+  }
+
+  private verifyEmail(body: any): Response {
+    const verification = this.findVerificationCode('email_verification', body.code);
+    if (verification instanceof Response) return verification;
+    verification.used = true;
+    const user = this.findUserByEmail(verification.email);
+    if (user) user.primaryEmailVerified = true;
+    return json(200, { success: true });
+  }
+
+  // An unused, unexpired code issued for `purpose`, or the error the API answers with
+  private findVerificationCode(purpose: FakeVerificationCode['purpose'], code: unknown): FakeVerificationCode | Response {
+    const verification = this.verificationCodes.get(String(code ?? ''));
+    if (!verification || verification.purpose !== purpose) {
+      return knownError(404, 'VERIFICATION_CODE_NOT_FOUND', 'The verification code does not exist for this project.');
+    }
+    if (verification.used) {
+      return knownError(409, 'VERIFICATION_CODE_ALREADY_USED', 'The verification link has already been used.');
+    }
+    if (verification.expiresAt <= this.now()) {
+      return knownError(400, 'VERIFICATION_CODE_EXPIRED', 'The verification code has expired.');
+    }
+    return verification;
+  }
+
+  private codeLink(callbackUrl: string, code: string): string {
+    return `${callbackUrl}${callbackUrl.includes('?') ? '&' : '?'}code=${code}`;
+  }
+
+  private refresh(refreshToken: string | undefined): Response {
+    if (!refreshToken || !this.sessions.has(refreshToken)) {
+      return knownError(401, 'REFRESH_TOKEN_NOT_FOUND_OR_EXPIRED', 'Refresh token not found for this project, or the session has expired/been revoked.');
+    }
+    return json(200, { access_token: this.issueAccessToken(refreshToken) });
+  }
+
+  private async exchangeCode(body: any): Promise<Response> {
+    const grant = this.authorizationCodes.get(body.code);
+    if (body.grant_type !== 'authorization_code' || !grant) {
+      return knownError(400, 'INVALID_AUTHORIZATION_CODE', 'The given authorization code is invalid.');
+    }
+    // Codes are single use, whether or not the exchange succeeds
+    this.authorizationCodes.delete(body.code);
+    if (body.redirect_uri !== grant.redirectUri) {
+      return knownError(400, 'INVALID_AUTHORIZATION_CODE', 'The redirect URI does not match the authorization request.');
+    }
+    const challenge = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, String(body.code_verifier ?? ''), {
+      encoding: Crypto.CryptoEncoding.BASE64,
+    });
+    if (challenge.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '') !== grant.codeChallenge) {
+      return knownError(400, 'INVALID_AUTHORIZATION_CODE', 'The code verifier does not match the code challenge.');
+    }
+    return json(200, { ...this.tokensJson(grant.userId), token_type: 'Bearer' });
+  }
+
+  private currentProject(): Response {
+    return json(200, {
+      id: this.projectId,
+      display_name: 'Test project',
+      config: { enabled_oauth_providers: this.oauthProviders.map(id => ({ id })) },
+    });
+  }
+
+  private tokensJson(userId: string) {
+    const { accessToken, refreshToken } = this.createSession(userId);
+    return { access_token: accessToken, refresh_token: refreshToken, user_id: userId };
+  }
+
+  private issueAccessToken(refreshToken: string): string {
+    const issuedAt = this.now();
+    const expiresAt = issuedAt + this.accessTokenTtlMs;
+    const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+    const payload = base64Url(
+      JSON.stringify({
+        sub: this.sessions.get(refreshToken)?.userId,
+        iat: Math.floor(issuedAt / 1000),
+        exp: Math.floor(expiresAt / 1000),
+        jti: this.generateId('jti'),
+      })
+    );
+    const token = `${header}.${payload}.fake-signature`;
+    this.accessTokens.set(token, { refreshToken, expiresAt });
+    return token;
+  }
+
+  private endSession(refreshToken: string): void {
+    this.sessions.delete(refreshToken);
+    for (const [token, session] of this.accessTokens) {
+      if (session.refreshToken === refreshToken) this.accessTokens.delete(token);
+    }
+  }
+
+  private listSessionsFor(user: FakeUser, currentRefreshToken: string, query: URLSearchParams): Response {
+    if (query.get('user_id') !== 'me') {
+      return knownError(400, 'SCHEMA_ERROR', 'Clients can only list their own sessions (user_id=me)');
+    }
+    const items = [...this.sessions.entries()]
+      .filter(([, session]) => session.userId === user.id)
+      .map(([refreshToken, session]) => ({
+        id: session.id,
+        user_id: session.userId,
+        created_at: session.createdAt,
+        last_used_at: session.lastUsedAt ?? null,
+        is_impersonation: false,
+        is_current_session: refreshToken === currentRefreshToken,
+        last_used_at_end_user_ip_info: session.ip ? { ip: session.ip, is_trusted: false } : null,
+      }));
+    return json(200, { items, is_paginated: false });
+  }
+
+  private revokeSession(user: FakeUser, currentRefreshToken: string, sessionId: string, query: URLSearchParams): Response {
+    if (query.get('user_id') !== 'me') {
+      return knownError(400, 'SCHEMA_ERROR', 'Clients can only revoke their own sessions (user_id=me)');
+    }
+    const entry = [...this.sessions.entries()].find(([, session]) => session.id === sessionId && session.userId === user.id);
+    if (!entry) return notFound();
+    if (entry[0] === currentRefreshToken) {
+      return knownError(400, 'CANNOT_DELETE_CURRENT_SESSION', 'Cannot delete the current session.');
+    }
+    this.endSession(entry[0]);
+    return json(200, { success: true });
+  }
+
+  // --- Users and teams -----------------------------------------------------
+
+  private getUser(viewer: FakeUser, userId: string): Response {
+    const user = this.users.get(userId);
+    // Clients can only see users they share a team with
+    const visible = user && (user.id === viewer.id || this.teamIdsOf(viewer.id).some(teamId => this.getMembership(teamId, user.id)));
+    if (!user || !visible) {
+      return knownError(404, 'USER_NOT_FOUND', 'User not found.');
+    }
+    return json(200, this.userJson(user));
+  }
+
+  private listTeams(user: FakeUser, query: URLSearchParams): Response {
+    if (query.get('user_id') !== 'me') {
+      return knownError(400, 'SCHEMA_ERROR', 'Clients can only list their own teams (user_id=me)');
+    }
+    return this.paginate(this.teamIdsOf(user.id).map(teamId => this.teamJson(teamId)), query);
+  }
+
+  private updateTeam(user: FakeUser, teamId: string, body: any): Response {
+    return this.withPermission(user, teamId, '$update_team', () => {
+      const team = this.teams.get(teamId)!;
+      if (body.display_name !== undefined) team.displayName = body.display_name;
+      if (body.profile_image_url !== undefined) team.profileImageUrl = body.profile_image_url ?? undefined;
+      if (body.client_metadata !== undefined) team.clientMetadata = body.client_metadata ?? undefined;
+      return json(200, this.teamJson(teamId));
+    });
+  }
+
+  private deleteTeam(user: FakeUser, teamId: string): Response {
+    return this.withPermission(user, teamId, '$delete_team', () => {
+      this.teams.delete(teamId);
+      this.memberships = this.memberships.filter(item => item.teamId !== teamId);
+      return json(200, { success: true });
+    });
+  }
+
+  // `viewer` null is server access, which also sees each member's email
+  private listMemberProfiles(query: URLSearchParams, viewer: FakeUser | null): Response {
+    const teamId = query.get('team_id');
+    if (!teamId) return knownError(400, 'SCHEMA_ERROR', 'team_id is required');
+    const list = () =>
+      this.paginate(
+        this.memberships.filter(item => item.teamId === teamId).map(item => this.memberJson(item, viewer === null)),
+        query
+      );
+    if (!viewer) {
+      return this.teams.has(teamId) ? list() : knownError(404, 'TEAM_NOT_FOUND', 'Team not found.');
+    }
+    return this.withPermission(viewer, teamId, '$read_members', list);
+  }
+
+  private getMemberProfile(user: FakeUser, teamId: string, userId: string): Response {
+    const targetId = userId === 'me' ? user.id : userId;
+    const read = () => {
+      const membership = this.getMembership(teamId, targetId);
+      return membership ? json(200, this.memberJson(membership, false)) : knownError(404, 'TEAM_MEMBERSHIP_NOT_FOUND', 'Team membership not found.');
+    };
+    // Reading somebody else's profile takes the same permission as listing them
+    return targetId === user.id ? this.withMembership(user, teamId, read) : this.withPermission(user, teamId, '$read_members', read);
+  }
+
+  private updateMemberProfile(user: FakeUser, teamId: string, userId: string, body: any): Response {
+    if (userId !== 'me' && userId !== user.id) {
+      return knownError(403, 'TEAM_PERMISSION_REQUIRED', 'Clients can only update their own team profile');
+    }
+    return this.withMembership(user, teamId, membership => {
+      if (body.display_name !== undefined) membership.displayName = body.display_name ?? undefined;
+      if (body.profile_image_url !== undefined) membership.profileImageUrl = body.profile_image_url ?? undefined;
+      return json(200, this.memberJson(membership, false));
+    });
+  }
+
+  private removeMember(user: FakeUser, teamId: string, userId: string): Response {
+    const targetId = userId === 'me' ? user.id : userId;
+    const remove = () => {
+      if (!this.getMembership(teamId, targetId)) {
+        return knownError(404, 'TEAM_MEMBERSHIP_NOT_FOUND', 'Team membership not found.');
+      }
+      this.memberships = this.memberships.filter(item => !(item.teamId === teamId && item.userId === targetId));
+      return json(200, { success: true });
+    };
+    // Anyone may leave a team; removing somebody else takes a permission
+    return targetId === user.id ? this.withMembership(user, teamId, remove) : this.withPermission(user, teamId, '$remove_members', remove);
+  }
+
+  private listPermissions(user: FakeUser, query: URLSearchParams): Response {
+    const teamId = query.get('team_id') ?? '';
+    if (query.get('user_id') !== 'me') {
+      return knownError(400, 'SCHEMA_ERROR', 'Clients can only list their own permissions (user_id=me)');
+    }
+    const membership = this.getMembership(teamId, user.id);
+    const items = (membership?.permissions ?? []).map(id => ({ id, team_id: teamId, user_id: user.id }));
+    return json(200, { items, is_paginated: false });
+  }
+
+  private sendInvitation(user: FakeUser, body: any): Response {
+    if (typeof body.email !== 'string' || !body.email.includes('@')) {
+      return knownError(400, 'SCHEMA_ERROR', 'email must be a valid email address');
+    }
+    return this.withPermission(user, body.team_id, '$invite_members', () => {
+      const invitation = {
+        id: this.generateId('invitation'),
+        teamId: body.team_id,
+        email: body.email,
+        callbackUrl: body.callback_url,
+        expiresAtMillis: this.now() + INVITATION_TTL_MS,
+      };
+      this.invitations.set(invitation.id, invitation);
+      return json(200, { success: true, id: invitation.id });
+    });
+  }
+
+  private listInvitationsFor(user: FakeUser, query: URLSearchParams): Response {
+    const teamId = query.get('team_id') ?? '';
+    return this.withPermission(user, teamId, '$invite_members', () =>
+      this.paginate(
+        this.listInvitations(teamId).map(item => ({
+          id: item.id,
+          team_id: item.teamId,
+          recipient_email: item.email,
+          expires_at_millis: item.expiresAtMillis,
+        })),
+        query
+      )
+    );
+  }
+
+  // A page of `items` as the query's `cursor` and `limit` select it. Cursors
+  // are offsets here; clients must treat them as opaque.
+  private paginate(items: unknown[], query: URLSearchParams): Response {
+    const offset = Number(query.get('cursor') ?? 0);
+    const limit = Number(query.get('limit') ?? this.pageSize);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      return knownError(400, 'SCHEMA_ERROR', 'cursor and limit must be non-negative integers');
+    }
+    const end = offset + limit;
+    return json(200, {
+      items: items.slice(offset, end),
+      is_paginated: true,
+      pagination: { next_cursor: end < items.length ? String(end) : null },
+    });
+  }
+
+  private deleteInvitation(user: FakeUser, invitationId: string, query: URLSearchParams): Response {
+    const teamId = query.get('team_id') ?? '';
+    return this.withPermission(user, teamId, '$remove_members', () => {
+      const invitation = this.invitations.get(invitationId);
+      if (!invitation || invitation.teamId !== teamId) {
+        return knownError(404, 'VERIFICATION_CODE_NOT_FOUND', 'Invitation not found.');
+      }
+      this.invitations.delete(invitationId);
+      return json(200, { success: true });
+    });
+  }
+
+  private withMembership(user: FakeUser, teamId: string, handle: (membership: FakeMembership) => Response): Response {
+    const membership = this.teams.has(teamId) ? this.getMembership(teamId, user.id) : undefined;
+    // Teams the user is not a member of don't exist as far as a client can tell
+    if (!membership) return knownError(404, 'TEAM_NOT_FOUND', 'Team not found.');
+    return handle(membership);
+  }
+
+  private withPermission(user: FakeUser, teamId: string, permission: string, handle: () => Response): Response {
+    return this.withMembership(user, teamId, membership =>
+      membership.permissions.includes(permission)
+        ? handle()
+        : knownError(403, 'TEAM_PERMISSION_REQUIRED', `User does not have permission ${permission} in team ${teamId}.`, {
+            team_id: teamId,
+            permission_id: permission,
+          })
+    );
+  }
+
+  // --- Serialization -------------------------------------------------------
+
+  private userJson(user: FakeUser) {
+    return {
+      id: user.id,
+      primary_email: user.email,
+      primary_email_verified: user.primaryEmailVerified ?? false,
+      display_name: user.displayName ?? null,
+      profile_image_url: user.profileImageUrl ?? null,
+    };
+  }
+
+  private teamJson(teamId: string) {
+    const team = this.teams.get(teamId)!;
+    return {
+      id: team.id,
+      display_name: team.displayName,
+      profile_image_url: team.profileImageUrl ?? null,
+      client_metadata: team.clientMetadata ?? null,
+    };
+  }
+
+  private memberJson(membership: FakeMembership, includeUser: boolean) {
+    const user = this.users.get(membership.userId);
+    return {
+      team_id: membership.teamId,
+      user_id: membership.userId,
+      display_name: membership.displayName ?? null,
+      profile_image_url: membership.profileImageUrl ?? null,
+      ...(includeUser && user ? { user: this.userJson(user) } : {}),
+    };
+  }
+
+  // --- Helpers -------------------------------------------------------------
+
+  private findUserByEmail(email: unknown): FakeUser | undefined {
+    return [...this.users.values()].find(user => user.email === email);
+  }
+
+  private teamIdsOf(userId: string): string[] {
+    return this.memberships.filter(item => item.userId === userId && this.teams.has(item.teamId)).map(item => item.teamId);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  private generateToken(prefix: string): string {
+    return `${prefix}_${Crypto.randomUUID().replace(/-/g, '')}`;
+  }
+}
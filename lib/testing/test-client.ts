@@ -0,0 +1,62 @@
+import { AccountList } from '../accounts';
+import { ConnectivityMonitor } from '../connectivity';
+import { ResponseCache } from '../cache';
+import { MutationQueue } from '../mutation-queue';
+import { NO_RETRY_POLICY } from '../retry';
+import { SignInThrottle } from '../sign-in-throttle';
+import { StackAuthClient, StackAuthClientOptions } from '../stack-auth';
+import { MemoryTokenStorage } from '../token-storage';
+import { FakeStackServer } from './fake-stack-server';
+
+// Connectivity that only changes when a test says so
+export class ManualConnectivity implements ConnectivityMonitor {
+  private online = true;
+  private listeners = new Set<(online: boolean) => void>();
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  subscribe(listener: (online: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setOnline(online: boolean): void {
+    if (online === this.online) return;
+    this.online = online;
+    this.listeners.forEach(listener => listener(online));
+  }
+}
+
+export const TEST_OAUTH_REDIRECT_URI = 'stackauthapp://oauth-callback';
+export const TEST_TEAM_INVITATION_URL = 'stackauthapp://team-invitation';
+export const TEST_MAGIC_LINK_URL = 'stackauthapp://magic-link';
+export const TEST_PASSWORD_RESET_URL = 'stackauthapp://reset-password';
+export const TEST_EMAIL_VERIFICATION_URL = 'stackauthapp://verify-email';
+
+// A client wired to `server` with in-memory storage, cache and queue and no
+// retries, so every test starts from a clean, deterministic state
+export const createTestClient = (server: FakeStackServer, options: Partial<StackAuthClientOptions> = {}) =>
+  new StackAuthClient({
+    projectId: server.projectId,
+    publishableClientKey: server.publishableClientKey,
+    baseUrl: server.baseUrl,
+    transport: server,
+    storage: new MemoryTokenStorage(),
+    accounts: new AccountList(null),
+    accountStorage: () => new MemoryTokenStorage(),
+    retryPolicy: NO_RETRY_POLICY,
+    cache: new ResponseCache(),
+    connectivity: new ManualConnectivity(),
+    mutationQueue: new MutationQueue(null),
+    signInThrottle: new SignInThrottle(null),
+    oauthRedirectUri: TEST_OAUTH_REDIRECT_URI,
+    teamInvitationUrl: TEST_TEAM_INVITATION_URL,
+    magicLinkUrl: TEST_MAGIC_LINK_URL,
+    passwordResetUrl: TEST_PASSWORD_RESET_URL,
+    emailVerificationUrl: TEST_EMAIL_VERIFICATION_URL,
+    ...options,
+  });
@@ -0,0 +1,224 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { createLogger } from './logger';
+
+const log = createLogger('TokenStorage');
+
+// Where StackAuthClient keeps the session tokens. Backends only need to
+// provide key/value access; failures are logged and treated as missing values
+// so a broken keychain never crashes the app.
+export interface TokenStorage {
+  getAccessToken(): Promise<string | null>;
+  setAccessToken(token: string): Promise<void>;
+  getRefreshToken(): Promise<string | null>;
+  setRefreshToken(token: string): Promise<void>;
+  clearTokens(): Promise<void>;
+}
+
+// SecureStore keys may only contain alphanumerics, '.', '-' and '_'
+const ACCESS_TOKEN_KEY = 'access_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Keys written before storage was namespaced by project
+const UNSCOPED_ACCESS_TOKEN_KEY = 'stack_auth.access_token';
+const UNSCOPED_REFRESH_TOKEN_KEY = 'stack_auth.refresh_token';
+
+// Keys used by the AsyncStorage-backed storage in earlier releases
+const LEGACY_ACCESS_TOKEN_KEY = '@stack_auth_access_token';
+const LEGACY_REFRESH_TOKEN_KEY = '@stack_auth_refresh_token';
+
+abstract class KeyValueTokenStorage implements TokenStorage {
+  // Prefix for every key, so sessions for different projects never overwrite each other
+  protected readonly prefix: string;
+
+  constructor(namespace?: string) {
+    this.prefix = namespace ? `stack_auth.${namespace.replace(/[^A-Za-z0-9._-]/g, '_')}.` : 'stack_auth.';
+  }
+
+  protected abstract getItem(key: string): Promise<string | null>;
+  protected abstract setItem(key: string, value: string): Promise<void>;
+  protected abstract removeItem(key: string): Promise<void>;
+
+  // Runs before every access; backends override it for one-time setup
+  protected async ready(): Promise<void> {}
+
+  async getAccessToken(): Promise<string | null> {
+    try {
+      await this.ready();
+      return await this.getItem(this.prefix + ACCESS_TOKEN_KEY);
+    } catch (error) {
+      log.error('Error getting access token', { error });
+      return null;
+    }
+  }
+
+  async setAccessToken(token: string): Promise<void> {
+    try {
+      await this.ready();
+      await this.setItem(this.prefix + ACCESS_TOKEN_KEY, token);
+    } catch (error) {
+      log.error('Error setting access token', { error });
+    }
+  }
+
+  async getRefreshToken(): Promise<string | null> {
+    try {
+      await this.ready();
+      return await this.getItem(this.prefix + REFRESH_TOKEN_KEY);
+    } catch (error) {
+      log.error('Error getting refresh token', { error });
+      return null;
+    }
+  }
+
+  async setRefreshToken(token: string): Promise<void> {
+    try {
+      await this.ready();
+      await this.setItem(this.prefix + REFRESH_TOKEN_KEY, token);
+    } catch (error) {
+      log.error('Error setting refresh token', { error });
+    }
+  }
+
+  async clearTokens(): Promise<void> {
+    try {
+      await this.ready();
+      await Promise.all([this.removeItem(this.prefix + ACCESS_TOKEN_KEY), this.removeItem(this.prefix + REFRESH_TOKEN_KEY)]);
+    } catch (error) {
+      log.error('Error clearing tokens', { error });
+    }
+  }
+}
+
+// Keychain (iOS) / Keystore-encrypted preferences (Android)
+export class SecureStoreTokenStorage extends KeyValueTokenStorage {
+  private migration: Promise<void> | null = null;
+
+  // Migration is off for storages of additional accounts, which
+  // must never adopt the single session older releases stored
+  constructor(namespace?: string, private migrateLegacy: boolean = true) {
+    super(namespace);
+  }
+
+  protected getItem(key: string) {
+    return SecureStore.getItemAsync(key);
+  }
+
+  protected setItem(key: string, value: string) {
+    return SecureStore.setItemAsync(key, value);
+  }
+
+  protected removeItem(key: string) {
+    return SecureStore.deleteItemAsync(key);
+  }
+
+  protected ready(): Promise<void> {
+    if (!this.migrateLegacy) return Promise.resolve();
+    if (!this.migration) {
+      this.migration = this.migrateLegacyTokens().catch(error => {
+        log.error('Error migrating legacy tokens', { error });
+      });
+    }
+    return this.migration;
+  }
+
+  // Moves tokens written by earlier releases (plaintext in AsyncStorage, then
+  // un-namespaced in the secure store) to the current keys and deletes the old
+  // copies. Tokens already under the current keys win, so a partially
+  // completed migration is never rolled back.
+  private async migrateLegacyTokens(): Promise<void> {
+    const [[, legacyAccessToken], [, legacyRefreshToken]] = await AsyncStorage.multiGet([
+      LEGACY_ACCESS_TOKEN_KEY,
+      LEGACY_REFRESH_TOKEN_KEY,
+    ]);
+    if (legacyAccessToken || legacyRefreshToken) {
+      await this.adoptTokens(legacyAccessToken, legacyRefreshToken);
+      await AsyncStorage.multiRemove([LEGACY_ACCESS_TOKEN_KEY, LEGACY_REFRESH_TOKEN_KEY]);
+    }
+
+    if (this.prefix + ACCESS_TOKEN_KEY === UNSCOPED_ACCESS_TOKEN_KEY) return;
+    const unscopedAccessToken = await this.getItem(UNSCOPED_ACCESS_TOKEN_KEY);
+    const unscopedRefreshToken = await this.getItem(UNSCOPED_REFRESH_TOKEN_KEY);
+    if (unscopedAccessToken || unscopedRefreshToken) {
+      await this.adoptTokens(unscopedAccessToken, unscopedRefreshToken);
+      await Promise.all([this.removeItem(UNSCOPED_ACCESS_TOKEN_KEY), this.removeItem(UNSCOPED_REFRESH_TOKEN_KEY)]);
+    }
+  }
+
+  private async adoptTokens(accessToken: string | null, refreshToken: string | null): Promise<void> {
+    if (accessToken && !(await this.getItem(this.prefix + ACCESS_TOKEN_KEY))) {
+      await this.setItem(this.prefix + ACCESS_TOKEN_KEY, accessToken);
+    }
+    if (refreshToken && !(await this.getItem(this.prefix + REFRESH_TOKEN_KEY))) {
+      await this.setItem(this.prefix + REFRESH_TOKEN_KEY, refreshToken);
+    }
+  }
+}
+
+// Browser storage: localStorage when available, cookies otherwise (for
+// example in Safari private mode, where localStorage writes throw)
+export class WebTokenStorage extends KeyValueTokenStorage {
+  private hasLocalStorage(): boolean {
+    try {
+      const probe = '__stack_auth_probe__';
+      window.localStorage.setItem(probe, probe);
+      window.localStorage.removeItem(probe);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  protected async getItem(key: string) {
+    if (this.hasLocalStorage()) {
+      return window.localStorage.getItem(key);
+    }
+    const prefix = `${encodeURIComponent(key)}=`;
+    const cookie = document.cookie.split('; ').find(entry => entry.startsWith(prefix));
+    return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+  }
+
+  protected async setItem(key: string, value: string) {
+    if (this.hasLocalStorage()) {
+      window.localStorage.setItem(key, value);
+      return;
+    }
+    document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; path=/; max-age=31536000; SameSite=Strict; Secure`;
+  }
+
+  protected async removeItem(key: string) {
+    if (this.hasLocalStorage()) {
+      window.localStorage.removeItem(key);
+      return;
+    }
+    document.cookie = `${encodeURIComponent(key)}=; path=/; max-age=0; SameSite=Strict; Secure`;
+  }
+}
+
+// Process-local storage for tests and for sessions that must not persist
+export class MemoryTokenStorage extends KeyValueTokenStorage {
+  private values = new Map<string, string>();
+
+  protected async getItem(key: string) {
+    return this.values.get(key) ?? null;
+  }
+
+  protected async setItem(key: string, value: string) {
+    this.values.set(key, value);
+  }
+
+  protected async removeItem(key: string) {
+    this.values.delete(key);
+  }
+}
+
+// `namespace` (usually the project ID) keeps each project's session separate
+export const createDefaultTokenStorage = (namespace?: string): TokenStorage =>
+  Platform.OS === 'web' ? new WebTokenStorage(namespace) : new SecureStoreTokenStorage(namespace);
+
+// Where the session of a signed-in account that is not the active one is kept
+export const createAccountTokenStorage = (namespace: string, userId: string): TokenStorage => {
+  const accountNamespace = `${namespace}.accounts.${userId}`;
+  return Platform.OS === 'web' ? new WebTokenStorage(accountNamespace) : new SecureStoreTokenStorage(accountNamespace, false);
+};
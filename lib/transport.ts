@@ -0,0 +1,76 @@
+import * as Crypto from 'expo-crypto';
+
+// A single HTTP request as StackAuthClient hands it to the transport
+export interface TransportRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+export type RequestInterceptor = (request: TransportRequest) => TransportRequest | Promise<TransportRequest>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  request: TransportRequest
+) => Response | Promise<Response>;
+
+// Everything StackAuthClient needs from the network. Swap in a custom
+// implementation to route requests elsewhere or to stub them in tests.
+export interface HttpTransport {
+  send(request: TransportRequest): Promise<Response>;
+}
+
+// fetch-based transport with ordered interceptors. Request interceptors run
+// in registration order before the request is sent; response interceptors
+// run in registration order on the way back.
+export class FetchTransport implements HttpTransport {
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+
+  constructor(private fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {}
+
+  // Returns a function that removes the interceptor again
+  useRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(item => item !== interceptor);
+    };
+  }
+
+  useResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(item => item !== interceptor);
+    };
+  }
+
+  async send(request: TransportRequest): Promise<Response> {
+    let outgoing = { ...request, headers: { ...request.headers } };
+    for (const interceptor of this.requestInterceptors) {
+      outgoing = await interceptor(outgoing);
+    }
+
+    let response = await this.fetchImpl(outgoing.url, {
+      method: outgoing.method,
+      headers: outgoing.headers,
+      body: outgoing.body,
+      signal: outgoing.signal,
+    });
+
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, outgoing);
+    }
+    return response;
+  }
+}
+
+// Tags every request with a unique ID so client and server logs can be correlated
+export const requestIdInterceptor = (headerName: string = 'X-Request-Id'): RequestInterceptor => request => ({
+  ...request,
+  headers: { ...request.headers, [headerName]: Crypto.randomUUID() },
+});
+
+export const joinUrl = (baseUrl: string, endpoint: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
@@ -0,0 +1,8 @@
+// Form checks shared by the sign in, sign up and password reset screens. The
+// server has the final say; these only catch mistakes before a round trip.
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+export const isValidPassword = (password: string) => password.length >= MIN_PASSWORD_LENGTH;
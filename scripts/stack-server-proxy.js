@@ -0,0 +1,184 @@
+#!/usr/bin/env node
+
+/**
+ * Reference server proxy for StackAuthClient's proxy mode.
+ *
+ * The mobile app must never contain the Stack server secret key. Instead it
+ * sends server-privileged requests here with the signed-in user's access token.
+ * The proxy checks that the user is allowed to make the request, then repeats
+ * it against the Stack API with the secret key and relays the answer.
+ *
+ * Usage:
+ *   STACK_BASE_URL=https://api.stack-auth.com/api/v1 \
+ *   STACK_PROJECT_ID=... \
+ *   STACK_PUBLISHABLE_CLIENT_KEY=... \
+ *   STACK_SECRET_SERVER_KEY=... \
+ *   npm run proxy
+ *
+ * Then point the app at it with EXPO_PUBLIC_STACK_SERVER_PROXY_URL=http://<host>:8787
+ *
+ * Optional: PORT (default 8787), ALLOWED_ORIGIN for web builds (default none),
+ * TEAM_ADMIN_PERMISSIONS (comma separated, defaults to the ones TeamProfile treats as admin),
+ * UPSTREAM_TIMEOUT_MS (default 10000) for each call to the Stack API.
+ *
+ * This is a starting point, not a hardened production service: put it behind
+ * TLS and add rate limiting before exposing it publicly.
+ */
+
+const http = require("http");
+
+const config = {
+  port: Number(process.env.PORT) || 8787,
+  baseUrl: (process.env.STACK_BASE_URL || "").replace(/\/+$/, ""),
+  projectId: process.env.STACK_PROJECT_ID || "",
+  publishableClientKey: process.env.STACK_PUBLISHABLE_CLIENT_KEY || "",
+  secretServerKey: process.env.STACK_SECRET_SERVER_KEY || "",
+  allowedOrigin: process.env.ALLOWED_ORIGIN || "",
+  upstreamTimeoutMs: Number(process.env.UPSTREAM_TIMEOUT_MS) || 10000,
+  teamAdminPermissions: (
+    process.env.TEAM_ADMIN_PERMISSIONS ||
+    "$update_team,$delete_team,$remove_members,$manage_api_keys,team_admin"
+  )
+    .split(",")
+    .map((permission) => permission.trim())
+    .filter(Boolean),
+};
+
+const missing = ["baseUrl", "projectId", "publishableClientKey", "secretServerKey"].filter(
+  (key) => !config[key]
+);
+if (missing.length > 0) {
+  console.error(`Missing configuration: ${missing.join(", ")}. See the usage notes at the top of this file.`);
+  process.exit(1);
+}
+
+// Routes the proxy is willing to forward. Only the `query` parameters are
+// passed on to Stack, and each route decides from them whether the calling
+// user may make the request.
+const routes = [
+  {
+    method: "GET",
+    path: "/team-member-profiles",
+    query: ["team_id", "cursor", "limit"],
+    authorize: (query, accessToken) => requireTeamAdmin(query.get("team_id"), accessToken),
+  },
+];
+
+// The query to forward, or null when a parameter is repeated: the check and
+// Stack could otherwise read different values of it
+const allowedQuery = (url, names) => {
+  const query = new URLSearchParams();
+  for (const name of names) {
+    const values = url.searchParams.getAll(name);
+    if (values.length > 1) return null;
+    if (values.length === 1) query.set(name, values[0]);
+  }
+  return query;
+};
+
+const stackHeaders = (accessType, extra = {}) => ({
+  "X-Stack-Access-Type": accessType,
+  "X-Stack-Project-Id": config.projectId,
+  "X-Stack-Publishable-Client-Key": config.publishableClientKey,
+  ...(accessType === "server" ? { "X-Stack-Secret-Server-Key": config.secretServerKey } : {}),
+  ...extra,
+});
+
+// Aborts after upstreamTimeoutMs, including while the body is read, so a
+// stalled Stack API can't hold proxy requests open
+const stackFetch = (path, accessType, extra) => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), config.upstreamTimeoutMs).unref();
+  return fetch(`${config.baseUrl}${path}`, { headers: stackHeaders(accessType, extra), signal: controller.signal });
+};
+
+// Resolves to null when allowed, or to the response to send back otherwise.
+// Stack's own answer is relayed for token problems so the app can refresh and replay.
+const requireTeamAdmin = async (teamId, accessToken) => {
+  if (!teamId) return jsonResponse(400, { error: "team_id is required" });
+
+  const query = new URLSearchParams({ team_id: teamId, user_id: "me" });
+  const response = await stackFetch(`/team-permissions?${query}`, "client", {
+    "X-Stack-Access-Token": accessToken,
+  });
+  if (!response.ok) return response;
+
+  const body = await response.json();
+  const permissions = Array.isArray(body.items) ? body.items.map((item) => item.id) : [];
+  if (!permissions.some((permission) => config.teamAdminPermissions.includes(permission))) {
+    return jsonResponse(403, { error: "Team admin permission required" });
+  }
+  return null;
+};
+
+const jsonResponse = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const relay = async (response, res) => {
+  const headers = { "Content-Type": response.headers.get("content-type") || "application/json" };
+  const knownError = response.headers.get("x-stack-known-error");
+  if (knownError) headers["X-Stack-Known-Error"] = knownError;
+  res.writeHead(response.status, { ...corsHeaders(), ...headers });
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+const corsHeaders = () =>
+  config.allowedOrigin
+    ? {
+        "Access-Control-Allow-Origin": config.allowedOrigin,
+        "Access-Control-Allow-Headers":
+          "Content-Type, X-Stack-Access-Type, X-Stack-Project-Id, X-Stack-Publishable-Client-Key, X-Stack-Access-Token, X-Request-Id",
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+      }
+    : {};
+
+const handle = async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders());
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url, "http://localhost");
+  const route = routes.find((candidate) => candidate.method === req.method && candidate.path === url.pathname);
+  if (!route) {
+    await relay(jsonResponse(404, { error: "Not found" }), res);
+    return;
+  }
+
+  const accessToken = req.headers["x-stack-access-token"];
+  if (typeof accessToken !== "string" || !accessToken) {
+    await relay(jsonResponse(401, { error: "Missing access token" }), res);
+    return;
+  }
+
+  const query = allowedQuery(url, route.query);
+  if (!query) {
+    await relay(jsonResponse(400, { error: "Repeated query parameter" }), res);
+    return;
+  }
+
+  const denied = await route.authorize(query, accessToken);
+  if (denied) {
+    await relay(denied, res);
+    return;
+  }
+
+  const search = query.toString();
+  await relay(await stackFetch(search ? `${url.pathname}?${search}` : url.pathname, "server"), res);
+};
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    const timedOut = error.name === "AbortError";
+    console.error(`${req.method} ${req.url?.split("?")[0]} failed:`, timedOut ? "upstream timed out" : error.message);
+    if (!res.headersSent) {
+      res.writeHead(timedOut ? 504 : 502, { ...corsHeaders(), "Content-Type": "application/json" });
+    }
+    res.end(JSON.stringify({ error: timedOut ? "Upstream request timed out" : "Upstream request failed" }));
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`Stack server proxy listening on http://localhost:${config.port}`);
+});